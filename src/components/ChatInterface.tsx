@@ -1,19 +1,65 @@
 "use client";
 
 import type React from "react";
-import { useRef, useEffect, useState } from "react";
-import { marked } from "marked";
-import { useSharedChatContext, Message } from "../contexts/SharedChatContext";
+import { useEffect, useState } from "react";
+import { useSharedChatContext } from "../contexts/SharedChatContext";
 import { useScreenContext } from "../contexts/ScreenContext";
 import { useTTSContext } from "../contexts/TTSContext";
+import { answerVariants } from "../llm/queryPipeline";
+import type { BranchInfo } from "../utils/conversationTree";
+import type { ExtractionTemplate } from "../llm/extraction";
+import { ExtractionTable } from "./ExtractionTable";
+import { ToolCallSteps } from "./ToolCallSteps";
+import { MarkdownContent } from "./MarkdownContent";
+import type { QueuedQuery } from "../hooks/useQueryQueue";
+import { VirtualMessageList } from "./VirtualMessageList";
+import { NoticeMessage } from "./NoticeMessage";
+import { Composer } from "./Composer";
+import { parseSlashCommand, type SlashCommand } from "../utils/slashCommands";
+import type { Attachment, Message, MessageId, MessageMeta, NoticeAction } from "../utils/messages";
 
-marked.setOptions({
-  breaks: true,
-  gfm: true,
-});
+const attachmentLabel = (attachment: Attachment) => {
+  switch (attachment.kind) {
+    case "screenshot":
+      return "📸 Screen";
+    case "ocr-text":
+      return "🔤 Screen text";
+    case "file":
+      return `📎 ${attachment.name}`;
+  }
+};
+
+// e.g. "Default · Chrome AI · 2.4s · ~310 tokens"
+const describeMeta = (meta: MessageMeta) =>
+  [
+    meta.profileName,
+    meta.providerLabel,
+    meta.latencyMs !== undefined && `${(meta.latencyMs / 1000).toFixed(1)}s`,
+    meta.outputTokens !== undefined && `~${meta.outputTokens} tokens`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
 interface ChatInterfaceProps {
   onUserQuery: (query: string) => void;
+  onStop?: () => void;
+  onRegenerate?: (messageId: MessageId) => void;
+  onSelectVariant?: (message: Message, variantIndex: number) => void;
+  onEditMessage?: (messageId: MessageId, text: string) => void;
+  onSelectBranch?: (messageId: MessageId, branchIndex: number) => void;
+  getBranchInfo?: (messageId: MessageId) => BranchInfo | null;
+  extractionTemplates?: ExtractionTemplate[];
+  onExtract?: (template: ExtractionTemplate) => void;
+  // Questions sent while the assistant is busy wait here
+  queuedQueries?: QueuedQuery[];
+  onQueueQuery?: (query: string) => void;
+  onCancelQueued?: (id: string) => void;
+  onMoveQueued?: (id: string, offset: number) => void;
+  onSpeakCode?: (code: string) => void;
+  onNoticeAction?: (action: NoticeAction) => void;
+  noticeActions?: NoticeAction["type"][]; // actions this window can run; all by default
+  onDismissNotice?: (id: MessageId) => void;
+  slashCommands?: SlashCommand[];
   showScreenToggle?: boolean;
   isPIPMode?: boolean;
   sharedMessages?: Message[];
@@ -22,10 +68,32 @@ interface ChatInterfaceProps {
   sharedLoadingStage?: string;
   onSetInputText?: (text: string) => void;
   hasScreenAccess?: boolean;
+  focusMessageId?: MessageId | null; // scroll to and briefly highlight, e.g. a search result
+  onMessageFocused?: () => void;
 }
 
+// How long a message jumped to stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2000;
+
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onUserQuery,
+  onStop,
+  onRegenerate,
+  onSelectVariant,
+  onEditMessage,
+  onSelectBranch,
+  getBranchInfo: propGetBranchInfo,
+  extractionTemplates = [],
+  onExtract,
+  queuedQueries = [],
+  onQueueQuery,
+  onCancelQueued,
+  onMoveQueued,
+  onSpeakCode: propSpeakCode,
+  onNoticeAction,
+  noticeActions,
+  onDismissNotice: propDismissNotice,
+  slashCommands = [],
   isPIPMode = false,
   sharedMessages,
   sharedInputText,
@@ -33,165 +101,487 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   sharedLoadingStage,
   onSetInputText,
   hasScreenAccess: propHasScreenAccess,
+  focusMessageId = null,
+  onMessageFocused,
 }) => {
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-
   const sharedChatContext = isPIPMode ? null : useSharedChatContext();
   const screenContext = isPIPMode ? null : useScreenContext();
   const ttsContext = isPIPMode ? null : useTTSContext();
 
   const [localInputText, setLocalInputText] = useState("");
+  const [editingId, setEditingId] = useState<MessageId | null>(null);
+  const [editText, setEditText] = useState("");
+  const [showExtractMenu, setShowExtractMenu] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<MessageId | null>(null);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const handleMessageFocused = () => {
+    setHighlightedId(focusMessageId);
+    onMessageFocused?.();
+  };
 
   const messages = sharedMessages || sharedChatContext?.messages || [];
-  const inputText = isPIPMode
-    ? localInputText
-    : sharedInputText ?? sharedChatContext?.inputText ?? "";
+  // The draft is shared with the other window when the caller hands it in
+  const inputText = sharedInputText ?? sharedChatContext?.inputText ?? localInputText;
   const isThinking = sharedIsThinking ?? sharedChatContext?.isThinking ?? false;
   const loadingStage =
     sharedLoadingStage ?? sharedChatContext?.loadingStage ?? "";
-  const setInputText = isPIPMode
-    ? setLocalInputText
-    : onSetInputText ?? sharedChatContext?.setInputText ?? (() => {});
+  const setInputText = onSetInputText ?? sharedChatContext?.setInputText ?? setLocalInputText;
   const hasScreenAccess =
     propHasScreenAccess ?? screenContext?.hasScreenAccess ?? false;
+  const getBranchInfo = propGetBranchInfo ?? sharedChatContext?.getBranchInfo;
+  const dismissNotice = propDismissNotice ?? sharedChatContext?.dismissNotice;
+  const canRunNoticeAction = (action: NoticeAction) =>
+    !noticeActions || noticeActions.includes(action.type);
+  const speakCode =
+    propSpeakCode ??
+    (ttsContext?.isSupported ? ttsContext.speakCode : undefined);
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  const canQueue = !!onQueueQuery;
+
+  const visibleMessages = messages.filter((msg) => !msg.dismissed);
+
+  // Questions the composer's up arrow walks back through
+  const pastQueries = messages
+    .filter((msg) => msg.type === "user")
+    .map((msg) => msg.content);
+
+  const clearInput = () => setInputText("");
+
+  const runCommand = (command: SlashCommand, argument = "") => {
+    if (command.needsIdle && isThinking) return;
+    clearInput();
+    command.run(argument);
+  };
+
+  const submitInput = () => {
+    if (!inputText.trim()) return;
+
+    const slash = parseSlashCommand(inputText, slashCommands);
+    if (slash) {
+      runCommand(slash.command, slash.argument);
+      return;
+    }
+
+    if (isThinking) {
+      if (!onQueueQuery) return;
+      onQueueQuery(inputText);
+    } else {
+      onUserQuery(inputText);
+    }
+    clearInput();
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isThinking || !inputText.trim()) return;
-    onUserQuery(inputText);
-    if (isPIPMode) setLocalInputText("");
-    else setInputText("");
+    submitInput();
+  };
+
+  const startEditing = (msg: Message) => {
+    setEditingId(msg.id);
+    setEditText(msg.content);
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null || isThinking || !editText.trim()) return;
+    onEditMessage?.(editingId, editText);
+    setEditingId(null);
   };
 
+  const renderMessage = (msg: Message) =>
+    msg.type === "system" || msg.type === "error" ? (
+      <NoticeMessage
+        message={msg}
+        canRun={canRunNoticeAction}
+        onAction={onNoticeAction}
+        onDismiss={dismissNotice}
+        disabled={isThinking}
+      />
+    ) : msg.type === "user" ? (
+      editingId === msg.id ? (
+        <form
+          onSubmit={handleEditSubmit}
+          className="flex flex-col items-end gap-2"
+        >
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setEditingId(null);
+            }}
+            rows={3}
+            className="w-full max-w-[85%] px-4 py-3 bg-white border border-gray-300 rounded-2xl text-gray-900 text-sm outline-none focus:ring-2 focus:ring-blue-200 focus:border-blue-400 resize-y"
+            autoFocus
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isThinking || !editText.trim()}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg border bg-blue-600 text-white border-blue-600 hover:bg-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save & Submit
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="group flex flex-col items-end">
+          <div className="max-w-[85%] bg-gray-800 text-white rounded-2xl rounded-tr-sm px-4 py-3">
+            <div className="leading-relaxed">{msg.content}</div>
+          </div>
+          {msg.attachments && msg.attachments.length > 0 && (
+            <div className="flex gap-1 mt-1 mr-1 text-[11px] text-gray-500">
+              {msg.attachments.map((attachment) => (
+                <span
+                  key={attachment.kind}
+                  className="px-2 py-0.5 rounded-full bg-gray-100 border border-gray-200"
+                >
+                  {attachmentLabel(attachment)}
+                </span>
+              ))}
+            </div>
+          )}
+          {(() => {
+            const branch = getBranchInfo?.(msg.id);
+            const hasBranches = !!branch && branch.count > 1 && !!onSelectBranch;
+            if (!hasBranches && !onEditMessage) return null;
+
+            return (
+              <div className="flex gap-2 mt-1 mr-1 items-center text-xs text-gray-500">
+                {hasBranches && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onSelectBranch!(msg.id, branch!.index - 1)}
+                      disabled={isThinking || branch!.index === 0}
+                      className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Previous version"
+                    >
+                      ‹
+                    </button>
+                    <span>
+                      {branch!.index + 1}/{branch!.count}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onSelectBranch!(msg.id, branch!.index + 1)}
+                      disabled={isThinking || branch!.index === branch!.count - 1}
+                      className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Next version"
+                    >
+                      ›
+                    </button>
+                  </div>
+                )}
+                {onEditMessage && (
+                  <button
+                    type="button"
+                    onClick={() => startEditing(msg)}
+                    disabled={isThinking}
+                    className="px-2 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:cursor-not-allowed"
+                    title="Edit and resend as a new branch"
+                  >
+                    ✏️ Edit
+                  </button>
+                )}
+              </div>
+            );
+          })()}
+        </div>
+      )
+    ) : (
+      <div className="flex gap-3 items-start">
+        <div className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center flex-shrink-0 mt-1">
+          <span className="text-base">🤖</span>
+        </div>
+        <div className="flex-1 min-w-0 max-w-[80%]">
+          <div className="bg-gray-300 text-gray-900 border border-gray-200 rounded-2xl rounded-tl-sm px-4 py-3 shadow-sm">
+            {msg.toolCalls && <ToolCallSteps calls={msg.toolCalls} />}
+            {msg.extraction ? (
+              <ExtractionTable
+                templateName={msg.extraction.templateName}
+                data={msg.extraction.data}
+                source={msg.extraction.source}
+              />
+            ) : (
+              <MarkdownContent
+                content={msg.content || ""}
+                streaming={msg.status === "streaming"}
+                onSpeakCode={speakCode}
+              />
+            )}
+            {msg.status === "aborted" && (
+              <div className="mt-2 text-xs text-gray-500 italic">
+                ⏹ Stopped — answer is incomplete
+              </div>
+            )}
+            {msg.status === "failed" && (
+              <div className="mt-2 text-xs text-red-600 italic">
+                ⚠️ The answer broke off with an error
+              </div>
+            )}
+          </div>
+          {msg.meta && msg.status !== "streaming" && (
+            <div className="mt-1 ml-1 text-[11px] text-gray-400">{describeMeta(msg.meta)}</div>
+          )}
+          {msg.content && (
+            <div className="flex flex-wrap gap-2 mt-2 ml-1 items-center">
+              {ttsContext?.isSupported && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      ttsContext.speak(msg.content, msg.id)
+                    }
+                    disabled={
+                      ttsContext.isSpeaking &&
+                      ttsContext.currentMessageId === msg.id
+                    }
+                    className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-all flex items-center gap-1.5 ${
+                      ttsContext.isSpeaking &&
+                      ttsContext.currentMessageId === msg.id
+                        ? "bg-blue-50 text-blue-600 border-blue-200 cursor-not-allowed"
+                        : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50 hover:text-gray-800 hover:border-gray-300"
+                    }`}
+                  >
+                    🔊{" "}
+                    {ttsContext.isSpeaking &&
+                    ttsContext.currentMessageId === msg.id
+                      ? "Speaking"
+                      : "Hear Out"}
+                  </button>
+                  {ttsContext.isSpeaking &&
+                    ttsContext.currentMessageId === msg.id && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={
+                            ttsContext.isPaused
+                              ? ttsContext.resume
+                              : ttsContext.pause
+                          }
+                          className="px-2 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
+                          title={
+                            ttsContext.isPaused ? "Resume" : "Pause"
+                          }
+                        >
+                          {ttsContext.isPaused ? "▶" : "⏸"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={ttsContext.stop}
+                          className="px-2 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
+                          title="Stop"
+                        >
+                          ⏹
+                        </button>
+                      </>
+                    )}
+                </>
+              )}
+              {answerVariants(msg).length > 1 && onSelectVariant && (
+                <div className="flex items-center gap-1 text-xs text-gray-500">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onSelectVariant(msg, (msg.activeVariant ?? 0) - 1)
+                    }
+                    disabled={isThinking || (msg.activeVariant ?? 0) === 0}
+                    className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Previous answer"
+                  >
+                    ‹
+                  </button>
+                  <span>
+                    {(msg.activeVariant ?? 0) + 1}/{answerVariants(msg).length}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onSelectVariant(msg, (msg.activeVariant ?? 0) + 1)
+                    }
+                    disabled={
+                      isThinking ||
+                      (msg.activeVariant ?? 0) === answerVariants(msg).length - 1
+                    }
+                    className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Next answer"
+                  >
+                    ›
+                  </button>
+                </div>
+              )}
+              {onRegenerate && !msg.extraction && (
+                <button
+                  type="button"
+                  onClick={() => onRegenerate(msg.id)}
+                  disabled={isThinking}
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 hover:text-gray-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Generate another answer to the same question and screen"
+                >
+                  🔄 Regenerate
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+
   return (
     <>
-      <div className="flex-1 overflow-auto h-[calc(100vh-160px)]">
-        <div className="w-full px-4 py-6 bg-gray-50">
-          {messages
-            .filter((msg) => msg.type === "user" || msg.type === "assistant")
-            .map((msg) => (
-              <div key={msg.id} className="mb-6">
-                {msg.type === "user" ? (
-                  <div className="flex justify-end">
-                    <div className="max-w-[85%] bg-gray-800 text-white rounded-2xl rounded-tr-sm px-4 py-3">
-                      <div className="leading-relaxed">{msg.content}</div>
-                    </div>
+      <VirtualMessageList
+        items={visibleMessages}
+        getKey={(msg) => msg.id}
+        renderItem={(msg) =>
+          msg.id === highlightedId ? (
+            <div className="rounded-2xl ring-2 ring-amber-300 ring-offset-4 ring-offset-gray-50">
+              {renderMessage(msg)}
+            </div>
+          ) : (
+            renderMessage(msg)
+          )
+        }
+        focusKey={focusMessageId}
+        onFocused={handleMessageFocused}
+        className="flex-1 overflow-auto h-[calc(100vh-160px)]"
+        contentClassName="w-full px-4 py-6 bg-gray-50"
+        itemClassName="pb-6"
+        footer={
+          <>
+            {isThinking && (
+              <div className="mb-6">
+                <div className="flex gap-3 items-start">
+                  <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0 mt-1">
+                    <span className="text-base">🤖</span>
                   </div>
-                ) : (
-                  <div className="flex gap-3 items-start">
-                    <div className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center flex-shrink-0 mt-1">
-                      <span className="text-base">🤖</span>
-                    </div>
-                    <div className="flex-1 min-w-0 max-w-[80%]">
-                      <div className="bg-gray-300 text-gray-900 border border-gray-200 rounded-2xl rounded-tl-sm px-4 py-3 shadow-sm">
-                        <div
-                          className="markdown-content leading-relaxed text-left w-full overflow-x-auto"
-                          dangerouslySetInnerHTML={{
-                            __html: marked(msg.content || ""),
-                          }}
-                        />
-                      </div>
-                      {ttsContext?.isSupported && msg.content && (
-                        <div className="flex gap-2 mt-2 ml-1">
-                          <button
-                            type="button"
-                            onClick={() =>
-                              ttsContext.speak(msg.content, msg.id)
-                            }
-                            disabled={
-                              ttsContext.isSpeaking &&
-                              ttsContext.currentMessageId === msg.id
-                            }
-                            className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-all flex items-center gap-1.5 ${
-                              ttsContext.isSpeaking &&
-                              ttsContext.currentMessageId === msg.id
-                                ? "bg-blue-50 text-blue-600 border-blue-200 cursor-not-allowed"
-                                : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50 hover:text-gray-800 hover:border-gray-300"
-                            }`}
-                          >
-                            🔊{" "}
-                            {ttsContext.isSpeaking &&
-                            ttsContext.currentMessageId === msg.id
-                              ? "Speaking"
-                              : "Hear Out"}
-                          </button>
-                          {ttsContext.isSpeaking &&
-                            ttsContext.currentMessageId === msg.id && (
-                              <>
-                                <button
-                                  type="button"
-                                  onClick={
-                                    ttsContext.isPaused
-                                      ? ttsContext.resume
-                                      : ttsContext.pause
-                                  }
-                                  className="px-2 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
-                                  title={
-                                    ttsContext.isPaused ? "Resume" : "Pause"
-                                  }
-                                >
-                                  {ttsContext.isPaused ? "▶" : "⏸"}
-                                </button>
-                                <button
-                                  type="button"
-                                  onClick={ttsContext.stop}
-                                  className="px-2 py-1.5 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
-                                  title="Stop"
-                                >
-                                  ⏹
-                                </button>
-                              </>
-                            )}
-                        </div>
-                      )}
+                  <div className="flex-1 min-w-0 max-w-[80%]">
+                    <div className="text-gray-500 leading-relaxed flex items-center gap-2">
+                      <span>{loadingStage || "Thinking"}</span>
+                      <span className="inline-flex gap-1">
+                        <span className="thinking-dot"></span>
+                        <span className="thinking-dot"></span>
+                        <span className="thinking-dot"></span>
+                      </span>
                     </div>
                   </div>
-                )}
+                </div>
               </div>
-            ))}
-
-          {isThinking && (
-            <div className="mb-6">
-              <div className="flex gap-3 items-start">
-                <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0 mt-1">
-                  <span className="text-base">🤖</span>
+            )}
+            {queuedQueries.map((query, index) => (
+              <div key={query.id} className="mb-6 flex flex-col items-end">
+                <div className="max-w-[85%] bg-white text-gray-500 border border-dashed border-gray-400 rounded-2xl rounded-tr-sm px-4 py-3">
+                  <div className="leading-relaxed">{query.text}</div>
                 </div>
-                <div className="flex-1 min-w-0 max-w-[80%]">
-                  <div className="text-gray-500 leading-relaxed flex items-center gap-2">
-                    <span>{loadingStage || "Thinking"}</span>
-                    <span className="inline-flex gap-1">
-                      <span className="thinking-dot"></span>
-                      <span className="thinking-dot"></span>
-                      <span className="thinking-dot"></span>
-                    </span>
-                  </div>
+                <div className="flex gap-1 mt-1 mr-1 items-center text-xs text-gray-500">
+                  <span className="mr-1">⏳ Queued #{index + 1}</span>
+                  {onMoveQueued && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onMoveQueued(query.id, -1)}
+                        disabled={index === 0}
+                        className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Ask earlier"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onMoveQueued(query.id, 1)}
+                        disabled={index === queuedQueries.length - 1}
+                        className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Ask later"
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                  {onCancelQueued && (
+                    <button
+                      type="button"
+                      onClick={() => onCancelQueued(query.id)}
+                      className="px-1.5 py-1 rounded border bg-white border-gray-200 hover:bg-gray-50"
+                      title="Cancel this question"
+                    >
+                      ✕
+                    </button>
+                  )}
                 </div>
               </div>
-            </div>
-          )}
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
+            ))}
+          </>
+        }
+      />
 
       <div className="border-t border-gray-200 bg-white sticky bottom-0 w-full">
         <form onSubmit={handleSubmit} className="w-full px-4 py-4">
           <div className="flex gap-2 items-end">
             <div className="flex-1 relative">
-              <input
-                type="text"
+              <Composer
                 value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                placeholder="Message AI Assistant..."
-                disabled={isThinking}
-                className="w-full px-4 py-3 bg-gray-50 border border-gray-300 rounded-xl text-gray-900 text-sm placeholder:text-gray-400 outline-none focus:ring-2 focus:ring-blue-200 focus:border-blue-400 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                autoFocus
+                onChange={setInputText}
+                onSubmit={submitInput}
+                onRunCommand={runCommand}
+                history={pastQueries}
+                commands={slashCommands}
+                isBusy={isThinking}
+                placeholder={
+                  isThinking && canQueue
+                    ? "Ask a follow-up (it runs after this answer)..."
+                    : slashCommands.length > 0
+                      ? "Message AI Assistant... (/ for commands)"
+                      : "Message AI Assistant..."
+                }
+                disabled={isThinking && !canQueue}
               />
             </div>
 
+            {onExtract && extractionTemplates.length > 0 && (
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setShowExtractMenu((open) => !open)}
+                  disabled={isThinking}
+                  className={`px-4 py-3 border border-gray-300 rounded-xl text-sm font-medium transition-all duration-200 bg-white text-gray-700 hover:bg-gray-50 ${
+                    isThinking ? "opacity-50 cursor-not-allowed" : ""
+                  }`}
+                  title="Extract fields from the screen"
+                >
+                  🧾 Extract
+                </button>
+                {showExtractMenu && (
+                  <div className="absolute bottom-full mb-2 right-0 min-w-[12rem] bg-white border border-gray-200 rounded-xl shadow-lg py-1 z-10">
+                    {extractionTemplates.map((template) => (
+                      <button
+                        key={template.id}
+                        type="button"
+                        onClick={() => {
+                          setShowExtractMenu(false);
+                          onExtract(template);
+                        }}
+                        className="block w-full px-4 py-2 text-left text-sm text-gray-700 bg-white hover:bg-gray-50 border-none cursor-pointer"
+                      >
+                        {template.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {ttsContext?.isSupported && (
               <button
                 type="button"
@@ -210,23 +600,50 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               </button>
             )}
 
-            <button
-              type="submit"
-              disabled={!inputText.trim() || isThinking}
-              className={`px-5 py-3 border rounded-xl text-sm font-medium transition-all duration-200 ${
-                inputText.trim() && !isThinking
-                  ? "bg-blue-600 text-white border-blue-600 hover:bg-blue-700"
-                  : "bg-gray-200 text-gray-500 border-gray-300 cursor-not-allowed"
-              }`}
-            >
-              {isThinking ? (
-                <span className="flex items-center gap-2">
-                  <span className="inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></span>
-                </span>
-              ) : (
-                "Send"
-              )}
-            </button>
+            {isThinking && onStop && (
+              <button
+                type="button"
+                onClick={onStop}
+                className="px-5 py-3 border rounded-xl text-sm font-medium transition-all duration-200 bg-red-600 text-white border-red-600 hover:bg-red-700"
+                title="Stop generating"
+              >
+                ⏹ Stop
+              </button>
+            )}
+            {isThinking && canQueue ? (
+              <button
+                type="submit"
+                disabled={!inputText.trim()}
+                className={`px-5 py-3 border rounded-xl text-sm font-medium transition-all duration-200 ${
+                  inputText.trim()
+                    ? "bg-blue-600 text-white border-blue-600 hover:bg-blue-700"
+                    : "bg-gray-200 text-gray-500 border-gray-300 cursor-not-allowed"
+                }`}
+                title="Ask this once the current answer is done"
+              >
+                ⏳ Queue
+              </button>
+            ) : (
+              !(isThinking && onStop) && (
+                <button
+                  type="submit"
+                  disabled={!inputText.trim() || isThinking}
+                  className={`px-5 py-3 border rounded-xl text-sm font-medium transition-all duration-200 ${
+                    inputText.trim() && !isThinking
+                      ? "bg-blue-600 text-white border-blue-600 hover:bg-blue-700"
+                      : "bg-gray-200 text-gray-500 border-gray-300 cursor-not-allowed"
+                  }`}
+                >
+                  {isThinking ? (
+                    <span className="flex items-center gap-2">
+                      <span className="inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></span>
+                    </span>
+                  ) : (
+                    "Send"
+                  )}
+                </button>
+              )
+            )}
           </div>
         </form>
       </div>
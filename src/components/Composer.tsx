@@ -0,0 +1,171 @@
+import type React from "react";
+import { useLayoutEffect, useRef, useState } from "react";
+import { matchingCommands, type SlashCommand } from "../utils/slashCommands";
+
+interface ComposerProps {
+  value: string;
+  onChange: (text: string) => void;
+  onSubmit: () => void;
+  onRunCommand: (command: SlashCommand) => void;
+  history: string[]; // earlier questions, oldest first
+  commands: SlashCommand[];
+  isBusy: boolean; // an answer is being written
+  placeholder: string;
+  disabled?: boolean;
+}
+
+// Tallest the textarea grows before it scrolls
+const MAX_HEIGHT_PX = 200;
+
+// The message box: a textarea that grows with its content. Enter sends,
+// Shift+Enter adds a line, the arrow keys walk through earlier questions
+// and a leading "/" opens the command menu.
+export const Composer: React.FC<ComposerProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  onRunCommand,
+  history,
+  commands,
+  isBusy,
+  placeholder,
+  disabled = false,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Position in history while recalling, counted back from the newest
+  const [recallIndex, setRecallIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [menuClosed, setMenuClosed] = useState(false);
+
+  const suggestions = menuClosed ? [] : matchingCommands(value, commands);
+  const menuOpen = suggestions.length > 0;
+  const activeIndex = Math.min(highlighted, suggestions.length - 1);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = "auto";
+    textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_HEIGHT_PX)}px`;
+  }, [value]);
+
+  const change = (text: string) => {
+    setRecallIndex(null);
+    setMenuClosed(false);
+    setHighlighted(0);
+    onChange(text);
+  };
+
+  const chooseCommand = (command: SlashCommand) => {
+    if (command.needsIdle && isBusy) return;
+    if (command.argument) {
+      change(`/${command.name} `);
+      setMenuClosed(true);
+      textareaRef.current?.focus();
+    } else {
+      setMenuClosed(true);
+      onRunCommand(command);
+    }
+  };
+
+  const recall = (index: number | null) => {
+    setRecallIndex(index);
+    onChange(index === null ? draft : history[history.length - 1 - index]!);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.nativeEvent.isComposing) return; // IME is still building a character
+
+    if (menuOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        chooseCommand(suggestions[activeIndex]!);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMenuClosed(true);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      setRecallIndex(null);
+      onSubmit();
+      return;
+    }
+
+    const textarea = e.currentTarget;
+    const caret = textarea.selectionStart;
+    const onFirstLine = !value.slice(0, caret).includes("\n");
+    const onLastLine = !value.slice(textarea.selectionEnd).includes("\n");
+
+    // Only take over the arrows when they would not move the caret between
+    // lines of something the user is writing
+    if (e.key === "ArrowUp" && onFirstLine && (value === "" || recallIndex !== null)) {
+      const next = recallIndex === null ? 0 : recallIndex + 1;
+      if (next >= history.length) return;
+      e.preventDefault();
+      if (recallIndex === null) setDraft(value);
+      recall(next);
+    } else if (e.key === "ArrowDown" && onLastLine && recallIndex !== null) {
+      e.preventDefault();
+      recall(recallIndex === 0 ? null : recallIndex - 1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {menuOpen && (
+        <div
+          role="listbox"
+          className="absolute bottom-full mb-2 left-0 min-w-[16rem] bg-white border border-gray-200 rounded-xl shadow-lg py-1 z-10"
+        >
+          {suggestions.map((command, index) => {
+            const unavailable = !!command.needsIdle && isBusy;
+            return (
+              <button
+                key={command.name}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()} // keep the textarea focused
+                onClick={() => chooseCommand(command)}
+                disabled={unavailable}
+                className={`flex w-full gap-3 px-4 py-2 text-left text-sm border-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                  index === activeIndex ? "bg-blue-50" : "bg-white hover:bg-gray-50"
+                }`}
+                title={unavailable ? "Available once the current answer is done" : undefined}
+              >
+                <span className="font-mono text-gray-900">
+                  /{command.name}
+                  {command.argument && <span className="text-gray-400"> {command.argument}</span>}
+                </span>
+                <span className="text-gray-500">{command.description}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <textarea
+        ref={textareaRef}
+        rows={1}
+        value={value}
+        onChange={(e) => change(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="block w-full px-4 py-3 bg-gray-50 border border-gray-300 rounded-xl text-gray-900 text-sm leading-5 placeholder:text-gray-400 outline-none resize-none overflow-y-auto focus:ring-2 focus:ring-blue-200 focus:border-blue-400 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        autoFocus
+      />
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import type { SessionUsage } from "../llm";
+import { COMPACTION_THRESHOLD } from "../llm/compaction";
+
+interface ContextUsageMeterProps {
+  usage: SessionUsage | null;
+  compact?: boolean;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+export const ContextUsageMeter: React.FC<ContextUsageMeterProps> = ({
+  usage,
+  compact = false,
+}) => {
+  if (!usage || usage.quota <= 0) return null;
+
+  const ratio = Math.min(usage.used / usage.quota, 1);
+  const barColor =
+    ratio >= COMPACTION_THRESHOLD
+      ? "bg-red-500"
+      : ratio >= COMPACTION_THRESHOLD / 2
+      ? "bg-amber-500"
+      : "bg-emerald-500";
+
+  return (
+    <div
+      className={`flex flex-col gap-1 ${compact ? "w-24" : "w-32"}`}
+      title={`Context window: ${usage.used} of ${usage.quota} tokens used. Older turns are summarized at ${Math.round(
+        COMPACTION_THRESHOLD * 100
+      )}%.`}
+    >
+      <span className={`text-xs ${compact ? "text-gray-300" : "text-gray-500"}`}>
+        🧠 {formatTokens(usage.used)} / {formatTokens(usage.quota)}
+      </span>
+      <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${barColor} transition-all`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
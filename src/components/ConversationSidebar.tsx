@@ -0,0 +1,149 @@
+import type React from "react";
+import { useState } from "react";
+import type { ConversationListing } from "../utils/conversationStore";
+
+interface ConversationSidebarProps {
+  conversations: ConversationListing[];
+  activeId: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+};
+
+// Drawer listing past conversations, newest first
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onOpen,
+  onNew,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const startRenaming = (conversation: ConversationListing) => {
+    setRenamingId(conversation.id);
+    setRenameText(conversation.title);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (conversation: ConversationListing) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <aside className="w-80 max-w-[85vw] h-full bg-white border-r border-gray-200 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-base font-semibold text-gray-900 m-0">Conversations</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-2 py-1 text-gray-500 hover:text-gray-800 bg-transparent border-none cursor-pointer"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-3 border-b border-gray-100">
+          <button
+            type="button"
+            onClick={onNew}
+            className="w-full px-4 py-2 text-sm font-medium rounded-lg border bg-blue-600 text-white border-blue-600 hover:bg-blue-700 cursor-pointer"
+          >
+            ＋ New chat
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto m-0 p-2 list-none space-y-1">
+          {conversations.length === 0 && (
+            <li className="px-3 py-6 text-sm text-gray-500 text-center">
+              Your conversations will be saved here.
+            </li>
+          )}
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeId;
+            return (
+              <li
+                key={conversation.id}
+                className={`group rounded-lg ${isActive ? "bg-blue-50" : "hover:bg-gray-50"}`}
+              >
+                {renamingId === conversation.id ? (
+                  <form onSubmit={handleRenameSubmit} className="p-2">
+                    <input
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      onBlur={handleRenameSubmit}
+                      onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                      className="w-full px-2 py-1 text-sm border border-blue-300 rounded outline-none focus:ring-2 focus:ring-blue-200"
+                      autoFocus
+                    />
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-1 px-2">
+                    <button
+                      type="button"
+                      onClick={() => onOpen(conversation.id)}
+                      className="flex-1 min-w-0 py-2 text-left bg-transparent border-none cursor-pointer"
+                    >
+                      <div
+                        className={`text-sm truncate ${
+                          isActive ? "font-semibold text-blue-800" : "text-gray-800"
+                        }`}
+                      >
+                        {conversation.title}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatDate(conversation.updatedAt)}
+                      </div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startRenaming(conversation)}
+                      className="px-1.5 py-1 text-xs rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 bg-transparent border-none cursor-pointer"
+                      title="Rename"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(conversation)}
+                      className="px-1.5 py-1 text-xs rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-100 bg-transparent border-none cursor-pointer"
+                      title="Delete"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+
+      <div className="flex-1 bg-black/30" onClick={onClose} />
+    </div>
+  );
+};
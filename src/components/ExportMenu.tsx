@@ -0,0 +1,119 @@
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import type { ExportFormat } from "../utils/conversationExport";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  canExport: boolean; // the conversation has at least one question
+  disabled?: boolean;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "markdown", label: "📝 Markdown", hint: "Questions and answers, for docs and tickets" },
+  { format: "json", label: "🗂️ JSON", hint: "Every message and screenshot, can be imported" },
+  { format: "html", label: "🌐 HTML", hint: "One file that opens offline, answers rendered" },
+];
+
+// Header dropdown for saving the conversation to a file or loading one back
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  onImport,
+  canExport,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // choosing the same file again should still import it
+    if (file) onImport(file);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-12 h-12 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
+        type="button"
+        title="Export or import a conversation"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-lg py-1 z-30"
+        >
+          <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+            Export conversation
+          </div>
+          {EXPORT_OPTIONS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              disabled={!canExport}
+              className="block w-full px-4 py-2 text-left bg-white hover:bg-gray-50 border-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              title={canExport ? undefined : "Ask something first"}
+            >
+              <div className="text-sm text-gray-900">{label}</div>
+              <div className="text-xs text-gray-500">{hint}</div>
+            </button>
+          ))}
+
+          <div className="my-1 border-t border-gray-100" />
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              setIsOpen(false);
+              fileInputRef.current?.click();
+            }}
+            disabled={disabled}
+            className="block w-full px-4 py-2 text-left text-sm text-gray-900 bg-white hover:bg-gray-50 border-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            title={disabled ? "Available once the current answer is done" : undefined}
+          >
+            📂 Import JSON…
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
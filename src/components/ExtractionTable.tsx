@@ -0,0 +1,82 @@
+import { useState } from "react";
+import type { ExtractedData } from "../llm/extraction";
+
+interface ExtractionTableProps {
+  templateName: string;
+  data: ExtractedData;
+  source: "image" | "ocr";
+}
+
+const isPlainValue = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const FieldValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-gray-400">—</span>;
+  }
+  if (Array.isArray(value) && value.every(isPlainValue)) {
+    return <>{value.join(", ")}</>;
+  }
+  if (typeof value === "object") {
+    return (
+      <pre className="m-0 text-xs whitespace-pre-wrap break-words">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    );
+  }
+  return <>{String(value)}</>;
+};
+
+// Result of an extraction template: one row per field, copyable as JSON
+export const ExtractionTable: React.FC<ExtractionTableProps> = ({
+  templateName,
+  data,
+  source,
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  return (
+    <div className="text-left w-full">
+      <div className="flex justify-between items-center mb-2 gap-2">
+        <span className="font-semibold text-sm">🧾 {templateName}</span>
+        <button
+          type="button"
+          onClick={copyJson}
+          className="px-2 py-1 text-xs font-medium rounded-lg border bg-white text-gray-600 border-gray-200 hover:bg-gray-50 transition-all"
+          title="Copy the extracted fields as JSON"
+        >
+          {copied ? "✓ Copied" : "📋 Copy JSON"}
+        </button>
+      </div>
+      <table className="w-full text-sm border-collapse bg-white rounded-lg overflow-hidden">
+        <tbody>
+          {Object.entries(data).map(([field, value]) => (
+            <tr key={field} className="border-b border-gray-200 last:border-b-0">
+              <th className="px-3 py-1.5 text-left font-medium text-gray-600 align-top whitespace-nowrap">
+                {field}
+              </th>
+              <td className="px-3 py-1.5 text-gray-900 break-words">
+                <FieldValue value={value} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {source === "ocr" && (
+        <div className="mt-2 text-xs text-gray-500 italic">
+          Read from OCR text — double-check the values
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useSettingsContext } from "../contexts/SettingsContext";
+import { ExtractionTemplate, parseTemplateSchema } from "../llm/extraction";
+
+const inputClassName =
+  "w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900";
+
+const formatSchema = (template?: ExtractionTemplate) =>
+  template ? JSON.stringify(template.schema, null, 2) : "";
+
+export const ExtractionTemplateEditor: React.FC = () => {
+  const { extractionTemplates, saveExtractionTemplate, deleteExtractionTemplate } =
+    useSettingsContext();
+  const [editingId, setEditingId] = useState(extractionTemplates[0]?.id ?? "");
+  const template = extractionTemplates.find((t) => t.id === editingId);
+
+  // The schema is edited as text and only saved once it parses
+  const [schemaText, setSchemaText] = useState(formatSchema(template));
+  const [schemaError, setSchemaError] = useState("");
+
+  const selectTemplate = (next?: ExtractionTemplate) => {
+    setEditingId(next?.id ?? "");
+    setSchemaText(formatSchema(next));
+    setSchemaError("");
+  };
+
+  const createTemplate = () => {
+    const created: ExtractionTemplate = {
+      id: `template-${Date.now()}`,
+      name: "New template",
+      schema: {
+        type: "object",
+        properties: { value: { type: ["string", "null"] } },
+        required: ["value"],
+      },
+    };
+    saveExtractionTemplate(created);
+    selectTemplate(created);
+  };
+
+  const updateSchema = (text: string) => {
+    setSchemaText(text);
+    if (!template) return;
+    try {
+      saveExtractionTemplate({ ...template, schema: parseTemplateSchema(text) });
+      setSchemaError("");
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : "Invalid schema");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-end">
+        <label className="block space-y-1 flex-1">
+          <span className="text-sm font-medium text-gray-700">Extraction template</span>
+          <select
+            value={editingId}
+            onChange={(e) =>
+              selectTemplate(extractionTemplates.find((t) => t.id === e.target.value))
+            }
+            className={inputClassName}
+          >
+            {extractionTemplates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={createTemplate}
+          className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm border-none rounded-lg cursor-pointer"
+          title="Add a template"
+        >
+          ＋ New
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (!template) return;
+            deleteExtractionTemplate(template.id);
+            selectTemplate(extractionTemplates.find((t) => t.id !== template.id));
+          }}
+          disabled={!template}
+          className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 text-sm border-none rounded-lg cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Delete this template"
+        >
+          🗑️
+        </button>
+      </div>
+
+      {template && (
+        <>
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-gray-700">Name</span>
+            <input
+              type="text"
+              value={template.name}
+              onChange={(e) => saveExtractionTemplate({ ...template, name: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-gray-700">
+              Fields <span className="text-gray-400">(JSON Schema)</span>
+            </span>
+            <textarea
+              value={schemaText}
+              onChange={(e) => updateSchema(e.target.value)}
+              rows={8}
+              spellCheck={false}
+              className={`${inputClassName} font-mono text-xs resize-y`}
+            />
+          </label>
+          {schemaError && <p className="text-xs text-red-600 m-0">{schemaError}</p>}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import type React from "react";
+import { memo, useEffect, useRef } from "react";
+import "katex/dist/katex.min.css";
+import { renderMarkdown } from "../utils/markdown";
+import { renderMermaidBlocks } from "../utils/mermaid";
+
+interface MarkdownContentProps {
+  content: string;
+  streaming?: boolean; // still being written, so not worth caching
+  onSpeakCode?: (code: string) => void;
+}
+
+const COPIED_LABEL_MS = 1500;
+
+// Code block toolbar buttons come from the rendered HTML, so their clicks
+// are picked up here rather than wired to each button
+const handleCodeAction = (
+  event: React.MouseEvent<HTMLDivElement>,
+  onSpeakCode?: (code: string) => void
+) => {
+  const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+    "button[data-code-action]"
+  );
+  const code = button?.closest(".code-block")?.querySelector("code")?.textContent;
+  if (!button || code == null) return;
+
+  if (button.dataset.codeAction === "speak") {
+    onSpeakCode?.(code);
+    return;
+  }
+
+  navigator.clipboard.writeText(code).then(
+    () => {
+      const label = button.textContent;
+      button.textContent = "✓ Copied";
+      setTimeout(() => (button.textContent = label), COPIED_LABEL_MS);
+    },
+    (error) => console.error("Failed to copy code:", error)
+  );
+};
+
+// Memoized so only a message whose text changed is parsed and re-rendered;
+// during streaming that is just the answer being written
+export const MarkdownContent = memo(
+  ({ content, streaming = false, onSpeakCode }: MarkdownContentProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Diagrams are drawn once the answer is complete; half-written mermaid
+    // source would only fail to parse on every frame
+    useEffect(() => {
+      if (!streaming && containerRef.current) {
+        renderMermaidBlocks(containerRef.current);
+      }
+    }, [content, streaming]);
+
+    return (
+      <div
+        ref={containerRef}
+        className={`markdown-content leading-relaxed text-left w-full overflow-x-auto ${
+          onSpeakCode ? "can-speak-code" : ""
+        }`}
+        onClick={(event) => handleCodeAction(event, onSpeakCode)}
+        dangerouslySetInnerHTML={{ __html: renderMarkdown(content, !streaming) }}
+      />
+    );
+  }
+);
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import type { Message, MessageId, NoticeAction } from "../utils/messages";
+
+interface NoticeMessageProps {
+  message: Message;
+  canRun: (action: NoticeAction) => boolean;
+  onAction?: (action: NoticeAction) => void;
+  onDismiss?: (id: MessageId) => void;
+  disabled?: boolean; // e.g. a retry while another answer is being written
+}
+
+const ACTION_LABELS: Record<NoticeAction["type"], string> = {
+  "retry-question": "🔄 Retry",
+  "retry-answer": "🔄 Retry",
+  "retry-extraction": "🔄 Retry",
+  "enable-screen": "📸 Re-enable screen",
+  "popup-help": "❓ Allow popups",
+  "open-setup": "⚙️ Set up AI",
+};
+
+const POPUP_HELP_STEPS = [
+  "Click the popup blocker icon at the right end of the address bar.",
+  "Choose \"Always allow pop-ups and redirects\" from this site, then Done.",
+  "Press the purple floating window button again.",
+];
+
+// System and error messages, shown inline between chat turns
+export const NoticeMessage: React.FC<NoticeMessageProps> = ({
+  message,
+  canRun,
+  onAction,
+  onDismiss,
+  disabled = false,
+}) => {
+  const [showHelp, setShowHelp] = useState(false);
+  const isError = message.type === "error";
+  const action = message.action;
+
+  // Popup help is read in place rather than run by the page
+  const handleAction = () => {
+    if (!action) return;
+    if (action.type === "popup-help") {
+      setShowHelp((shown) => !shown);
+    } else {
+      onAction?.(action);
+    }
+  };
+
+  const showAction =
+    action && (action.type === "popup-help" || (onAction && canRun(action)));
+
+  return (
+    <div
+      role={isError ? "alert" : "status"}
+      className={`mx-auto max-w-[90%] rounded-lg border px-3 py-2 text-sm ${
+        isError
+          ? "bg-red-50 border-red-200 text-red-800"
+          : "bg-blue-50 border-blue-100 text-blue-800"
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        <span className="flex-shrink-0">{isError ? "⚠️" : "ℹ️"}</span>
+        <div className="flex-1 min-w-0 leading-relaxed break-words">{message.content}</div>
+        {onDismiss && (
+          <button
+            type="button"
+            onClick={() => onDismiss(message.id)}
+            className="flex-shrink-0 px-1 text-xs opacity-60 hover:opacity-100"
+            title="Dismiss"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {showAction && (
+        <div className="mt-2 pl-6">
+          <button
+            type="button"
+            onClick={handleAction}
+            disabled={disabled && action.type !== "popup-help"}
+            className={`px-3 py-1 text-xs font-medium rounded-lg border bg-white transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+              isError
+                ? "border-red-200 hover:bg-red-100"
+                : "border-blue-200 hover:bg-blue-100"
+            }`}
+          >
+            {ACTION_LABELS[action.type]}
+          </button>
+        </div>
+      )}
+
+      {showHelp && (
+        <ol className="mt-2 pl-10 list-decimal space-y-0.5 text-xs">
+          {POPUP_HELP_STEPS.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
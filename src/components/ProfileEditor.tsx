@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useSettingsContext } from "../contexts/SettingsContext";
+import { AnswerLength, OUTPUT_LANGUAGES } from "../llm/profiles";
+
+const inputClassName =
+  "w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900";
+
+// Empty number fields mean "use the provider default"
+const optionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+export const ProfileEditor: React.FC = () => {
+  const { profiles, activeProfile, saveProfile, createProfile, deleteProfile } =
+    useSettingsContext();
+  const [editingId, setEditingId] = useState(activeProfile.id);
+
+  const profile = profiles.find((p) => p.id === editingId) ?? activeProfile;
+  const update = (changes: Partial<typeof profile>) =>
+    saveProfile({ ...profile, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-end">
+        <label className="block space-y-1 flex-1">
+          <span className="text-sm font-medium text-gray-700">Assistant profile</span>
+          <select
+            value={profile.id}
+            onChange={(e) => setEditingId(e.target.value)}
+            className={inputClassName}
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => setEditingId(createProfile().id)}
+          className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm border-none rounded-lg cursor-pointer"
+          title="Add a profile"
+        >
+          ＋ New
+        </button>
+        <button
+          type="button"
+          onClick={() => deleteProfile(profile.id)}
+          disabled={profiles.length < 2}
+          className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 text-sm border-none rounded-lg cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Delete this profile"
+        >
+          🗑️
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-700">Name</span>
+        <input
+          type="text"
+          value={profile.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className={inputClassName}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-gray-700">System prompt</span>
+        <textarea
+          value={profile.systemPrompt}
+          onChange={(e) => update({ systemPrompt: e.target.value })}
+          rows={4}
+          className={`${inputClassName} resize-y`}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700">Temperature</span>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={profile.temperature ?? ""}
+            placeholder="Default"
+            onChange={(e) => update({ temperature: optionalNumber(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700">Top-K</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={profile.topK ?? ""}
+            placeholder="Default"
+            onChange={(e) => update({ topK: optionalNumber(e.target.value) })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700">Output language</span>
+          <select
+            value={profile.outputLanguage}
+            onChange={(e) => update({ outputLanguage: e.target.value })}
+            className={inputClassName}
+          >
+            {OUTPUT_LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700">Answer length</span>
+          <select
+            value={profile.answerLength}
+            onChange={(e) => update({ answerLength: e.target.value as AnswerLength })}
+            className={inputClassName}
+          >
+            <option value="brief">Brief</option>
+            <option value="balanced">Balanced</option>
+            <option value="detailed">Detailed</option>
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={profile.tools}
+          onChange={(e) => update({ tools: e.target.checked })}
+        />
+        Let the assistant use tools (screenshots, OCR, reminders, clipboard)
+      </label>
+
+      <p className="text-xs text-gray-500 m-0">
+        Changes to the profile in use take effect when you close the settings.
+      </p>
+    </div>
+  );
+};
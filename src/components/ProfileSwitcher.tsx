@@ -0,0 +1,34 @@
+import { useSettingsContext } from "../contexts/SettingsContext";
+import type { AssistantProfile } from "../llm/profiles";
+
+interface ProfileSwitcherProps {
+  onSwitch: (profile: AssistantProfile) => void;
+  disabled?: boolean;
+}
+
+// Header dropdown for picking the assistant profile the chat runs with
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  onSwitch,
+  disabled = false,
+}) => {
+  const { profiles, activeProfile } = useSettingsContext();
+
+  return (
+    <select
+      value={activeProfile.id}
+      onChange={(e) => {
+        const profile = profiles.find((p) => p.id === e.target.value);
+        if (profile) onSwitch(profile);
+      }}
+      disabled={disabled}
+      className="h-12 px-3 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium border-none rounded-xl cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      title="Assistant profile"
+    >
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          👤 {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+};
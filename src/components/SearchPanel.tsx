@@ -0,0 +1,161 @@
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import type { ConversationTree } from "../utils/conversationTree";
+import { loadAllConversations } from "../utils/conversationStore";
+import {
+  buildSearchIndex,
+  searchConversations,
+  type SearchDocument,
+  type SearchIndex,
+} from "../utils/search";
+
+interface SearchPanelProps {
+  // The conversation on screen, which may have changes not saved yet
+  current: { id: string; title: string; tree: ConversationTree };
+  initialQuery?: string;
+  onSelect: (document: SearchDocument) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS = {
+  user: "🧑 You",
+  assistant: "🤖 Assistant",
+  screen: "🔤 Screen text",
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: date.getFullYear() === new Date().getFullYear() ? undefined : "numeric",
+  });
+
+// Search box over every saved conversation; picking a result opens it
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  current,
+  initialQuery = "",
+  onSelect,
+  onClose,
+}) => {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Built once per opening; conversations do not change while it is open
+  useEffect(() => {
+    let cancelled = false;
+    loadAllConversations()
+      .then((stored) => {
+        if (cancelled) return;
+        const saved = stored.filter((conversation) => conversation.id !== current.id);
+        setIndex(buildSearchIndex([current, ...saved]));
+      })
+      .catch((error) => {
+        console.error("Failed to load conversations for search:", error);
+        if (!cancelled) {
+          setLoadError(true);
+          setIndex(buildSearchIndex([current]));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const hits = useMemo(
+    () => (index ? searchConversations(index, query) : []),
+    [index, query]
+  );
+  const selected = Math.min(activeIndex, hits.length - 1);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      onClose();
+    } else if ((e.key === "ArrowDown" || e.key === "ArrowUp") && hits.length) {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((selected + step + hits.length) % hits.length);
+    } else if (e.key === "Enter" && hits[selected]) {
+      e.preventDefault();
+      onSelect(hits[selected]!.document);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex justify-center items-start pt-24 bg-black/30"
+      onClick={onClose}
+    >
+      <div
+        className="w-[40rem] max-w-[92vw] bg-white rounded-xl shadow-xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="p-3 border-b border-gray-200">
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            placeholder='Search conversations… "exact phrase", nginx* for word starts'
+            className="w-full px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900 outline-none focus:ring-2 focus:ring-blue-200 focus:border-blue-400"
+            autoFocus
+          />
+          <p className="mt-2 mb-0 text-xs text-gray-500">
+            Screen text is searchable where it was read as text (e.g. with /ocr).
+          </p>
+          {loadError && (
+            <p className="mt-2 mb-0 text-xs text-red-600">
+              Saved conversations could not be read; only this one is searched.
+            </p>
+          )}
+        </div>
+
+        <ul className="max-h-[60vh] overflow-y-auto m-0 p-2 list-none" role="listbox">
+          {!index && <li className="px-3 py-6 text-sm text-gray-500 text-center">Loading…</li>}
+          {index && query.trim() && hits.length === 0 && (
+            <li className="px-3 py-6 text-sm text-gray-500 text-center">No matches</li>
+          )}
+          {hits.map(({ document, snippet }, i) => (
+            <li key={`${document.conversationId}-${document.messageId}-${document.field}`}>
+              <button
+                type="button"
+                role="option"
+                aria-selected={i === selected}
+                onClick={() => onSelect(document)}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`block w-full px-3 py-2 text-left rounded-lg border-none cursor-pointer ${
+                  i === selected ? "bg-blue-50" : "bg-white"
+                }`}
+              >
+                <div className="flex gap-2 text-xs text-gray-500">
+                  <span className="font-medium text-gray-700 truncate">
+                    {document.conversationTitle}
+                  </span>
+                  <span className="flex-shrink-0">· {formatDate(document.timestamp)}</span>
+                  <span className="ml-auto flex-shrink-0">
+                    {SOURCE_LABELS[document.field === "screen" ? "screen" : document.type]}
+                  </span>
+                </div>
+                <div className="mt-1 text-sm text-gray-800 leading-snug break-words">
+                  {snippet.map((part, j) =>
+                    part.hit ? (
+                      <mark key={j} className="bg-amber-200 text-gray-900 rounded px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={j}>{part.text}</span>
+                    )
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
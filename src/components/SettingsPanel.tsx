@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useSettingsContext } from "../contexts/SettingsContext";
+import type { ProviderId, ProviderSettings } from "../llm";
+import { ProfileEditor } from "./ProfileEditor";
+import { ExtractionTemplateEditor } from "./ExtractionTemplateEditor";
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+// Provider fields are edited as a draft and applied on close: every change
+// makes a new provider, which would otherwise re-check the model and end the
+// AI session on each keystroke
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const { settings: savedSettings, updateSettings: saveSettings } = useSettingsContext();
+  const [settings, setSettings] = useState<ProviderSettings>(savedSettings);
+
+  const updateSettings = (changes: Partial<ProviderSettings>) =>
+    setSettings((prev) => ({ ...prev, ...changes }));
+
+  const handleClose = () => {
+    const changed = (Object.keys(settings) as (keyof ProviderSettings)[]).some(
+      (key) => settings[key] !== savedSettings[key]
+    );
+    if (changed) saveSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+      onClick={handleClose}
+    >
+      <div
+        className="w-full max-w-md max-h-full overflow-y-auto bg-white rounded-2xl shadow-xl p-6 space-y-5 text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-900 m-0">Settings</h2>
+          <button
+            type="button"
+            onClick={handleClose}
+            className="w-8 h-8 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-lg cursor-pointer"
+            title="Close settings"
+          >
+            ✕
+          </button>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700">AI provider</span>
+          <select
+            value={settings.providerId}
+            onChange={(e) =>
+              updateSettings({ providerId: e.target.value as ProviderId })
+            }
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+          >
+            <option value="chrome">Chrome built-in AI (Gemini Nano)</option>
+            <option value="openai">OpenAI-compatible server (llama.cpp, Ollama…)</option>
+          </select>
+        </label>
+
+        {settings.providerId === "openai" && (
+          <div className="space-y-4">
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-gray-700">Base URL</span>
+              <input
+                type="url"
+                value={settings.openAIBaseUrl}
+                onChange={(e) => updateSettings({ openAIBaseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-gray-700">Model</span>
+              <input
+                type="text"
+                value={settings.openAIModel}
+                onChange={(e) => updateSettings({ openAIModel: e.target.value })}
+                placeholder="llava"
+                className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-gray-700">
+                Context window <span className="text-gray-400">(tokens)</span>
+              </span>
+              <input
+                type="number"
+                min={512}
+                step={512}
+                value={settings.openAIContextSize}
+                onChange={(e) =>
+                  updateSettings({ openAIContextSize: Number(e.target.value) || 0 })
+                }
+                className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-gray-700">
+                API key <span className="text-gray-400">(optional)</span>
+              </span>
+              <input
+                type="password"
+                value={settings.openAIApiKey}
+                onChange={(e) => updateSettings({ openAIApiKey: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </label>
+            <p className="text-xs text-gray-500 m-0">
+              The server must allow requests from this page (CORS). For Ollama, set{" "}
+              <code>OLLAMA_ORIGINS</code>.
+            </p>
+          </div>
+        )}
+
+        <hr className="border-gray-200" />
+        <ProfileEditor />
+
+        <hr className="border-gray-200" />
+        <ExtractionTemplateEditor />
+      </div>
+    </div>
+  );
+};
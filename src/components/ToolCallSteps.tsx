@@ -0,0 +1,58 @@
+import {
+  answerToolConfirmation,
+  isAwaitingConfirmation,
+  type ToolCall,
+} from "../llm/tools";
+
+const STATUS_ICONS: Record<ToolCall["status"], string> = {
+  awaiting: "✋",
+  running: "⏳",
+  done: "✅",
+  error: "⚠️",
+};
+
+// Tools the model used for an answer, one collapsible step each. Steps that
+// need the user's OK open with the request and the buttons to answer it.
+export const ToolCallSteps: React.FC<{ calls: ToolCall[] }> = ({ calls }) => (
+  <div className="mb-2 space-y-1">
+    {calls.map((call) => (
+      <details
+        key={call.id}
+        open={call.status === "awaiting" || undefined}
+        className="bg-white/60 border border-gray-200 rounded-lg text-xs text-gray-700"
+      >
+        <summary className="px-3 py-1.5 cursor-pointer select-none">
+          {STATUS_ICONS[call.status]} 🔧 <span className="font-mono">{call.name}</span>
+        </summary>
+        <div className="px-3 pb-2 space-y-1">
+          {Object.keys(call.arguments).length > 0 && (
+            <pre className="m-0 whitespace-pre-wrap break-words font-mono">
+              {JSON.stringify(call.arguments, null, 2)}
+            </pre>
+          )}
+          {call.result && (
+            <div className="whitespace-pre-wrap break-words">{call.result}</div>
+          )}
+          {call.status === "awaiting" && isAwaitingConfirmation(call.id) && (
+            <div className="flex gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => answerToolConfirmation(call.id, true)}
+                className="px-3 py-1 text-xs font-medium rounded-lg border border-blue-300 bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Allow
+              </button>
+              <button
+                type="button"
+                onClick={() => answerToolConfirmation(call.id, false)}
+                className="px-3 py-1 text-xs font-medium rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+              >
+                Don't allow
+              </button>
+            </div>
+          )}
+        </div>
+      </details>
+    ))}
+  </div>
+);
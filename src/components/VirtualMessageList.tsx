@@ -0,0 +1,209 @@
+import type React from "react";
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+
+type ItemKey = string | number;
+
+interface VirtualMessageListProps<T> {
+  items: T[];
+  getKey: (item: T) => ItemKey;
+  renderItem: (item: T) => React.ReactNode;
+  footer?: React.ReactNode; // always mounted below the last item
+  className?: string; // the scroll container
+  contentClassName?: string;
+  itemClassName?: string;
+  estimatedItemHeight?: number;
+  overscanPx?: number;
+  // Scroll this item into view, e.g. a search result; it may arrive in
+  // items after the request does
+  focusKey?: ItemKey | null;
+  onFocused?: () => void;
+}
+
+// Within this many pixels of the end counts as "at the bottom"
+const BOTTOM_THRESHOLD_PX = 48;
+
+// A windowed list: only items in (or near) the viewport are mounted, the
+// rest are stood in for by padding sized from measured heights. It follows
+// new output while the user is at the bottom, stops once they scroll up,
+// and keeps what they are reading in place when items above it resize.
+export const VirtualMessageList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  footer,
+  className = "",
+  contentClassName = "",
+  itemClassName = "",
+  estimatedItemHeight = 120,
+  overscanPx = 800,
+  focusKey = null,
+  onFocused,
+}: VirtualMessageListProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const atBottomRef = useRef(true);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+  const [showJump, setShowJump] = useState(false);
+
+  const heightOf = (key: ItemKey) =>
+    heightsRef.current.get(String(key)) ?? estimatedItemHeight;
+
+  // offsets[i] is where item i starts; offsets[items.length] is the total
+  const offsets = [0];
+  for (const item of items) {
+    offsets.push(offsets[offsets.length - 1]! + heightOf(getKey(item)));
+  }
+  const totalHeight = offsets[items.length]!;
+
+  let start = 0;
+  while (start < items.length && offsets[start + 1]! < viewport.top - overscanPx) {
+    start++;
+  }
+  let end = start;
+  while (end < items.length && offsets[end]! < viewport.top + viewport.height + overscanPx) {
+    end++;
+  }
+
+  const readViewport = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    const listTop = listRef.current?.offsetTop ?? 0;
+    setViewport({
+      top: Math.max(0, scroller.scrollTop - listTop),
+      height: scroller.clientHeight,
+    });
+
+    const distance = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight;
+    atBottomRef.current = distance <= BOTTOM_THRESHOLD_PX;
+    setShowJump(!atBottomRef.current);
+  }, []);
+
+  const scrollToBottom = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    scroller.scrollTop = scroller.scrollHeight;
+    atBottomRef.current = true;
+    setShowJump(false);
+  }, []);
+
+  // Measure mounted items as they render and resize (e.g. while streaming)
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      const scroller = scrollRef.current;
+      let changed = false;
+
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const key = element.dataset.key;
+        if (!element.isConnected) {
+          observer.unobserve(element); // scrolled out of the window
+          continue;
+        }
+        if (key === undefined) continue;
+
+        const height = element.offsetHeight;
+        const previous = heightsRef.current.get(key);
+        if (previous === height) continue;
+
+        heightsRef.current.set(key, height);
+        changed = true;
+
+        // Anchor the reader: an item above the viewport changing size would
+        // otherwise push the content they are looking at up or down
+        if (scroller && !atBottomRef.current && previous !== undefined) {
+          const itemBottom = element.offsetTop + height;
+          if (itemBottom <= scroller.scrollTop) {
+            scroller.scrollTop += height - previous;
+          }
+        }
+      }
+
+      if (changed) setMeasureVersion((version) => version + 1);
+    });
+
+    observerRef.current = observer;
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    readViewport();
+    const observer = new ResizeObserver(readViewport);
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [readViewport]);
+
+  // Follow new output only while the reader is at the bottom
+  useLayoutEffect(() => {
+    if (atBottomRef.current) {
+      const scroller = scrollRef.current;
+      if (scroller) scroller.scrollTop = scroller.scrollHeight;
+    }
+  });
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (focusKey === null || !scroller) return;
+    const index = items.findIndex((item) => getKey(item) === focusKey);
+    if (index === -1) return;
+
+    // Jump to the estimated offset so the item mounts, then center it once
+    // it has rendered at its real height
+    atBottomRef.current = false;
+    scroller.scrollTop = (listRef.current?.offsetTop ?? 0) + offsets[index]!;
+    readViewport();
+    requestAnimationFrame(() => {
+      scroller
+        .querySelector(`[data-key="${CSS.escape(String(focusKey))}"]`)
+        ?.scrollIntoView({ block: "center" });
+    });
+    onFocused?.();
+  }, [focusKey, items]);
+
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  return (
+    <div ref={scrollRef} onScroll={readViewport} className={`relative ${className}`}>
+      <div className={contentClassName}>
+        <div
+          ref={listRef}
+          style={{
+            paddingTop: offsets[start],
+            paddingBottom: totalHeight - offsets[end]!,
+          }}
+        >
+          {items.slice(start, end).map((item) => {
+            const key = getKey(item);
+            return (
+              <div key={key} ref={measure} data-key={String(key)} className={itemClassName}>
+                {renderItem(item)}
+              </div>
+            );
+          })}
+        </div>
+        {footer}
+      </div>
+
+      {showJump && (
+        <div className="sticky bottom-4 h-0 flex justify-end items-end pr-4">
+          <button
+            type="button"
+            onClick={scrollToBottom}
+            className="px-3 py-1.5 text-xs font-medium rounded-full border bg-white text-gray-600 border-gray-300 shadow hover:bg-gray-50"
+            title="Scroll to the latest message"
+          >
+            ↓ Latest
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,17 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
+import { createStore, fieldSetter, type Store } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+
+export interface ScreenState {
+  hasScreenAccess: boolean;
+  currentScreenshot: string | null;
+  isListening: boolean;
+}
+
+export type ScreenStore = Store<ScreenState>;
 
 interface ScreenContextType {
+  store: ScreenStore; // shared with the floating window
   hasScreenAccess: boolean;
   currentScreenshot: string | null;
   isListening: boolean;
@@ -24,11 +35,24 @@ interface ScreenProviderProps {
 }
 
 export const ScreenProvider: React.FC<ScreenProviderProps> = ({ children }) => {
-  const [hasScreenAccess, setHasScreenAccess] = useState(false);
-  const [currentScreenshot, setCurrentScreenshot] = useState<string | null>(null);
-  const [isListening, setIsListening] = useState(false);
+  const [store] = useState<ScreenStore>(() =>
+    createStore<ScreenState>({
+      hasScreenAccess: false,
+      currentScreenshot: null,
+      isListening: false,
+    })
+  );
+  const { hasScreenAccess, currentScreenshot, isListening } = useStore(store);
+
+  const [setters] = useState(() => ({
+    setHasScreenAccess: fieldSetter(store, 'hasScreenAccess'),
+    setCurrentScreenshot: fieldSetter(store, 'currentScreenshot'),
+    setIsListening: fieldSetter(store, 'isListening'),
+  }));
+  const { setHasScreenAccess, setCurrentScreenshot, setIsListening } = setters;
 
   const value: ScreenContextType = {
+    store,
     hasScreenAccess,
     currentScreenshot,
     isListening,
@@ -0,0 +1,210 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { createProvider, LLMProvider, ProviderSettings } from '../llm';
+import { AssistantProfile, DEFAULT_PROFILE_ID, DEFAULT_PROFILES } from '../llm/profiles';
+import { DEFAULT_EXTRACTION_TEMPLATES, ExtractionTemplate } from '../llm/extraction';
+import { releaseSessionService } from '../llm/sessionService';
+import { createStore, type Store } from '../utils/store';
+
+const STORAGE_KEY = 'screen-genie-settings';
+const PROFILES_STORAGE_KEY = 'screen-genie-profiles';
+const TEMPLATES_STORAGE_KEY = 'screen-genie-extraction-templates';
+
+// What the floating window needs from the settings, kept current while it
+// is open
+export interface LiveSettings {
+  provider: LLMProvider;
+  activeProfile: AssistantProfile;
+  extractionTemplates: ExtractionTemplate[];
+}
+
+export type SettingsStore = Store<LiveSettings>;
+
+interface SettingsContextType {
+  store: SettingsStore;
+  settings: ProviderSettings;
+  provider: LLMProvider;
+  updateSettings: (newSettings: Partial<ProviderSettings>) => void;
+  profiles: AssistantProfile[];
+  activeProfile: AssistantProfile;
+  setActiveProfileId: (id: string) => void;
+  saveProfile: (profile: AssistantProfile) => void;
+  createProfile: () => AssistantProfile;
+  deleteProfile: (id: string) => void;
+  extractionTemplates: ExtractionTemplate[];
+  saveExtractionTemplate: (template: ExtractionTemplate) => void;
+  deleteExtractionTemplate: (id: string) => void;
+}
+
+interface StoredProfiles {
+  profiles: AssistantProfile[];
+  activeProfileId: string;
+}
+
+const defaultSettings: ProviderSettings = {
+  providerId: 'chrome',
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIModel: 'llava',
+  openAIApiKey: '',
+  openAIContextSize: 8192,
+};
+
+const loadSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings;
+  } catch (error) {
+    console.warn('Failed to load settings:', error);
+    return defaultSettings;
+  }
+};
+
+const loadProfiles = (): StoredProfiles => {
+  const defaults = { profiles: DEFAULT_PROFILES, activeProfileId: DEFAULT_PROFILE_ID };
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const parsed: StoredProfiles | null = stored ? JSON.parse(stored) : null;
+    return parsed?.profiles?.length ? parsed : defaults;
+  } catch (error) {
+    console.warn('Failed to load profiles:', error);
+    return defaults;
+  }
+};
+
+const loadExtractionTemplates = (): ExtractionTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_EXTRACTION_TEMPLATES;
+  } catch (error) {
+    console.warn('Failed to load extraction templates:', error);
+    return DEFAULT_EXTRACTION_TEMPLATES;
+  }
+};
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettingsContext = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettingsContext must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const [settings, setSettings] = useState<ProviderSettings>(loadSettings);
+
+  // Settings survive reloads (unlike the conversation itself)
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const [storedProfiles, setStoredProfiles] = useState<StoredProfiles>(loadProfiles);
+  const { profiles, activeProfileId } = storedProfiles;
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0]!;
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(storedProfiles));
+  }, [storedProfiles]);
+
+  const [extractionTemplates, setExtractionTemplates] =
+    useState<ExtractionTemplate[]>(loadExtractionTemplates);
+
+  useEffect(() => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(extractionTemplates));
+  }, [extractionTemplates]);
+
+  const provider = useMemo(
+    () => createProvider(settings),
+    [
+      settings.providerId,
+      settings.openAIBaseUrl,
+      settings.openAIModel,
+      settings.openAIApiKey,
+      settings.openAIContextSize,
+    ]
+  );
+
+  // Both windows share the provider's session; it ends with the provider
+  useEffect(() => () => releaseSessionService(provider), [provider]);
+
+  const [store] = useState<SettingsStore>(() =>
+    createStore<LiveSettings>({ provider, activeProfile, extractionTemplates })
+  );
+  useEffect(() => {
+    store.setState({ provider, activeProfile, extractionTemplates });
+  }, [provider, activeProfile, extractionTemplates]);
+
+  const updateSettings = (newSettings: Partial<ProviderSettings>) => {
+    setSettings((prev) => ({ ...prev, ...newSettings }));
+  };
+
+  const setActiveProfileId = (id: string) => {
+    setStoredProfiles((prev) => ({ ...prev, activeProfileId: id }));
+  };
+
+  const saveProfile = (profile: AssistantProfile) => {
+    setStoredProfiles((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === profile.id ? profile : p)),
+    }));
+  };
+
+  const createProfile = () => {
+    const profile: AssistantProfile = {
+      ...DEFAULT_PROFILES[0]!,
+      id: `profile-${Date.now()}`,
+      name: 'New profile',
+    };
+    setStoredProfiles((prev) => ({ ...prev, profiles: [...prev.profiles, profile] }));
+    return profile;
+  };
+
+  // The last remaining profile cannot be deleted
+  const deleteProfile = (id: string) => {
+    setStoredProfiles((prev) => {
+      const remaining = prev.profiles.filter((p) => p.id !== id);
+      if (!remaining.length) return prev;
+      return {
+        profiles: remaining,
+        activeProfileId:
+          prev.activeProfileId === id ? remaining[0]!.id : prev.activeProfileId,
+      };
+    });
+  };
+
+  // Adds the template, or replaces the one with the same id
+  const saveExtractionTemplate = (template: ExtractionTemplate) => {
+    setExtractionTemplates((prev) =>
+      prev.some((t) => t.id === template.id)
+        ? prev.map((t) => (t.id === template.id ? template : t))
+        : [...prev, template]
+    );
+  };
+
+  const deleteExtractionTemplate = (id: string) => {
+    setExtractionTemplates((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const value: SettingsContextType = {
+    store,
+    settings,
+    provider,
+    updateSettings,
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    createProfile,
+    deleteProfile,
+    extractionTemplates,
+    saveExtractionTemplate,
+    deleteExtractionTemplate,
+  };
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
@@ -1,27 +1,89 @@
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, ReactNode } from 'react';
+import {
+  activePath,
+  appendMessage,
+  branchInfo,
+  createConversationTree,
+  forkBefore,
+  revealMessage,
+  selectSibling,
+  updateNodeMessage,
+  type BranchInfo,
+  type ConversationTree,
+} from '../utils/conversationTree';
+import { createMessage, type Message, type MessageId, type NoticeAction } from '../utils/messages';
+import {
+  conversationTitle,
+  createConversationId,
+  deleteConversation as deleteStoredConversation,
+  listConversations,
+  loadConversation,
+  renameConversation as renameStoredConversation,
+  saveConversation,
+  type ConversationListing,
+  type ConversationSnapshot,
+} from '../utils/conversationStore';
+import { createStore, fieldSetter, type Store } from '../utils/store';
+import { useStore } from '../hooks/useStore';
+import type { QueuedQuery } from '../hooks/useQueryQueue';
 
-export interface Message {
-  id: number;
-  type: "user" | "assistant" | "system" | "error";
-  content: string;
-  timestamp: Date;
+const ACTIVE_CONVERSATION_KEY = 'screen-genie-active-conversation';
+
+// Saves wait for the conversation to settle, e.g. for an answer to finish streaming
+const SAVE_DELAY_MS = 500;
+
+// Rolling summary of turns compacted out of the AI session
+export interface ConversationSummary {
+  text: string;
+  throughMessageId: MessageId; // last message folded into the summary
+}
+
+// What the main and floating windows keep in lockstep
+export interface ChatState {
+  tree: ConversationTree;
+  inputText: string; // the composer draft
+  isThinking: boolean;
+  loadingStage: string;
+  conversationSummary: ConversationSummary | null;
+  queuedQueries: QueuedQuery[];
+  activeRun: AbortController | null; // stops the query in progress
 }
 
+export type ChatStore = Store<ChatState>;
+
 interface SharedChatContextType {
-  messages: Message[];
+  store: ChatStore; // handed to the floating window, which has no provider
+  messages: Message[]; // the active branch of the conversation tree
   inputText: string;
   isThinking: boolean;
   loadingStage: string;
-  conversationContext: string;
-  setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
+  conversationSummary: ConversationSummary | null;
   setInputText: React.Dispatch<React.SetStateAction<string>>;
   setIsThinking: React.Dispatch<React.SetStateAction<boolean>>;
   setLoadingStage: React.Dispatch<React.SetStateAction<string>>;
-  setConversationContext: React.Dispatch<React.SetStateAction<string>>;
-  addMessage: (type: Message["type"], content: string, id?: number) => void;
-  updateMessage: (id: number, content: string) => void;
-  clearConversation: () => void;
-  buildCleanConversationContext: () => string;
+  setConversationSummary: React.Dispatch<React.SetStateAction<ConversationSummary | null>>;
+  addMessage: (message: Message) => void;
+  addNotice: (type: "system" | "error", content: string, action?: NoticeAction) => void;
+  dismissNotice: (id: MessageId) => void;
+  updateMessage: (id: MessageId, content: string, changes?: Partial<Message>) => void;
+  forkBeforeMessage: (id: MessageId) => void;
+  selectBranch: (id: MessageId, index: number) => void;
+  showMessage: (id: MessageId) => void; // switches to the branch holding it
+  getBranchInfo: (id: MessageId) => BranchInfo | null;
+  clearConversation: () => void; // starts a new conversation; the old one stays in history
+  conversationId: string;
+  conversations: ConversationListing[];
+  openConversation: (id: string) => Promise<OpenedConversation | null>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  snapshotConversation: () => ConversationSnapshot;
+  importConversation: (snapshot: ConversationSnapshot) => OpenedConversation; // opens it as a new chat
+}
+
+// What a reopened conversation needs to rebuild its AI session
+export interface OpenedConversation {
+  messages: Message[];
+  summary: ConversationSummary | null;
 }
 
 const SharedChatContext = createContext<SharedChatContextType | undefined>(undefined);
@@ -34,95 +96,245 @@ export const useSharedChatContext = () => {
   return context;
 };
 
+const createInitialMessage = () =>
+  createMessage("system", "🎯 AI Screen Assistant is ready! I can help with questions and tasks.");
+
 interface SharedChatProviderProps {
   children: ReactNode;
 }
 
 export const SharedChatProvider: React.FC<SharedChatProviderProps> = ({ children }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 1,
-      type: "system" as const,
-      content: "🎯 AI Screen Assistant is ready! I can help with questions and tasks.",
-      timestamp: new Date(),
-    },
-  ]);
-
-  const [inputText, setInputText] = useState("");
-  const [isThinking, setIsThinking] = useState(false);
-  const [loadingStage, setLoadingStage] = useState("");
-  const [conversationContext, setConversationContext] = useState("");
-
-  // No localStorage persistence - fresh start on every reload
-
-  const addMessage = (type: Message["type"], content: string, id?: number) => {
-    const newMessage: Message = {
-      type,
-      content,
-      timestamp: new Date(),
-      id: id || Date.now(),
+  const [store] = useState<ChatStore>(() =>
+    createStore<ChatState>({
+      tree: createConversationTree(createInitialMessage()),
+      inputText: "",
+      isThinking: false,
+      loadingStage: "",
+      conversationSummary: null,
+      queuedQueries: [],
+      activeRun: null,
+    })
+  );
+  const { tree, inputText, isThinking, loadingStage, conversationSummary } = useStore(store);
+  const messages = useMemo(() => activePath(tree), [tree]);
+
+  const [setters] = useState(() => ({
+    setTree: fieldSetter(store, 'tree'),
+    setInputText: fieldSetter(store, 'inputText'),
+    setIsThinking: fieldSetter(store, 'isThinking'),
+    setLoadingStage: fieldSetter(store, 'loadingStage'),
+    setConversationSummary: fieldSetter(store, 'conversationSummary'),
+  }));
+  const { setTree, setInputText, setIsThinking, setLoadingStage, setConversationSummary } = setters;
+
+  const [conversationId, setConversationId] = useState(createConversationId);
+  const [conversations, setConversations] = useState<ConversationListing[]>([]);
+  const [customTitle, setCustomTitle] = useState<string | null>(null);
+  const createdAtRef = useRef(Date.now());
+  // Loading a conversation is not an edit, so it must not be saved back
+  // (that would only move it to the top of the history)
+  const skipSaveRef = useRef(true);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  const refreshConversations = () =>
+    listConversations()
+      .then(setConversations)
+      .catch((error) => console.warn('Failed to list conversations:', error));
+
+  const showConversation = (
+    id: string,
+    nextTree: ConversationTree,
+    summary: ConversationSummary | null,
+    createdAt: number,
+    title: string | null
+  ) => {
+    skipSaveRef.current = true;
+    createdAtRef.current = createdAt;
+    setConversationId(id);
+    store.setState({ tree: nextTree, conversationSummary: summary });
+    setCustomTitle(title);
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+  };
+
+  // Reopen the conversation that was on screen before the reload
+  useEffect(() => {
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (activeId) {
+      loadConversation(activeId)
+        .then((stored) => {
+          if (stored) {
+            showConversation(
+              stored.id,
+              stored.tree,
+              stored.summary,
+              stored.createdAt,
+              stored.titleEdited ? stored.title : null
+            );
+          }
+        })
+        .catch((error) => console.warn('Failed to restore the conversation:', error));
+    }
+    refreshConversations();
+  }, []);
+
+  useEffect(() => {
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    // Chats nobody has asked anything in yet are not worth listing
+    if (!messages.some((msg) => msg.type === 'user')) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      saveConversation({
+        id: conversationId,
+        title: customTitle ?? conversationTitle(messages),
+        titleEdited: customTitle !== null,
+        createdAt: createdAtRef.current,
+        updatedAt: Date.now(),
+        tree,
+        summary: conversationSummary,
+      })
+        .then(refreshConversations)
+        .catch((error) => console.warn('Failed to save the conversation:', error));
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversationId);
     };
-    setMessages((prev) => [...prev, newMessage]);
+
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [tree, conversationSummary]);
+
+  // Don't drop the last edit when the page goes away mid-delay
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.();
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const addMessage = (message: Message) => {
+    setTree((prev) => appendMessage(prev, message));
   };
 
-  const updateMessage = (id: number, content: string) => {
-    setMessages((prev) =>
-      prev.map((msg) => (msg.id === id ? { ...msg, content } : msg))
-    );
+  const addNotice = (type: "system" | "error", content: string, action?: NoticeAction) => {
+    addMessage(createMessage(type, content, { action }));
   };
 
+  const dismissNotice = (id: MessageId) => {
+    setTree((prev) => updateNodeMessage(prev, id, { dismissed: true }));
+  };
+
+  const updateMessage = (id: MessageId, content: string, changes?: Partial<Message>) => {
+    setTree((prev) => updateNodeMessage(prev, id, { ...changes, content }));
+  };
+
+  // The next message added becomes a new version of this one
+  const forkBeforeMessage = (id: MessageId) => {
+    setTree((prev) => forkBefore(prev, id));
+  };
+
+  const selectBranch = (id: MessageId, index: number) => {
+    setTree((prev) => selectSibling(prev, id, index));
+  };
+
+  const showMessage = (id: MessageId) => {
+    setTree((prev) => revealMessage(prev, id));
+  };
+
+  const getBranchInfo = (id: MessageId) => branchInfo(tree, id);
+
   const clearConversation = () => {
-    const initialMessage: Message = {
-      id: Date.now(),
-      type: "system",
-      content: "🎯 AI Screen Assistant is ready! I can help with questions and tasks.",
-      timestamp: new Date(),
-    };
-    
-    setMessages([initialMessage]);
-    setConversationContext("");
-    
+    pendingSaveRef.current?.();
+    showConversation(
+      createConversationId(),
+      createConversationTree(createInitialMessage()),
+      null,
+      Date.now(),
+      null
+    );
+
     // Don't add redundant "cleared" message - just reset to initial state
   };
 
-  const buildCleanConversationContext = () => {
-    // FALLBACK CONTEXT BUILDER
-    // This function is now primarily used as a fallback when persistent AI sessions fail
-    // and need to be recreated with manual conversation context injection.
-    // In normal operation, the persistent AI session maintains conversation memory naturally.
-    
-    // Filter out system and error messages, keep only user and assistant messages
-    const conversationMessages = messages.filter(msg => 
-      msg.type === "user" || msg.type === "assistant"
+  const openConversation = async (id: string): Promise<OpenedConversation | null> => {
+    pendingSaveRef.current?.();
+    const stored = await loadConversation(id);
+    if (!stored) return null;
+
+    showConversation(
+      stored.id,
+      stored.tree,
+      stored.summary,
+      stored.createdAt,
+      stored.titleEdited ? stored.title : null
+    );
+    return { messages: activePath(stored.tree), summary: stored.summary };
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    if (id === conversationId) setCustomTitle(title);
+    await renameStoredConversation(id, title);
+    await refreshConversations();
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (id === conversationId) {
+      pendingSaveRef.current = null;
+      clearConversation();
+    }
+    await deleteStoredConversation(id);
+    await refreshConversations();
+  };
+
+  const snapshotConversation = (): ConversationSnapshot => ({
+    title: customTitle ?? conversationTitle(messages),
+    createdAt: createdAtRef.current,
+    tree,
+    summary: conversationSummary,
+  });
+
+  const importConversation = (snapshot: ConversationSnapshot): OpenedConversation => {
+    pendingSaveRef.current?.();
+    showConversation(
+      createConversationId(),
+      snapshot.tree,
+      snapshot.summary,
+      snapshot.createdAt,
+      snapshot.title
     );
-    
-    // Take the last 8 messages (4 exchanges) to stay within token limits
-    const recentMessages = conversationMessages.slice(-8);
-    
-    // Build conversation context from actual messages
-    const context = recentMessages.map(msg => {
-      const role = msg.type === "user" ? "User" : "Assistant";
-      return `${role}: ${msg.content.trim()}`;
-    }).join('\n\n');
-    
-    return context;
+    // Unlike reopening from history, an import is new to the list
+    skipSaveRef.current = false;
+    return { messages: activePath(snapshot.tree), summary: snapshot.summary };
   };
 
   const value: SharedChatContextType = {
+    store,
     messages,
     inputText,
     isThinking,
     loadingStage,
-    conversationContext,
-    setMessages,
+    conversationSummary,
     setInputText,
     setIsThinking,
     setLoadingStage,
-    setConversationContext,
+    setConversationSummary,
     addMessage,
+    addNotice,
+    dismissNotice,
     updateMessage,
+    forkBeforeMessage,
+    selectBranch,
+    showMessage,
+    getBranchInfo,
     clearConversation,
-    buildCleanConversationContext,
+    conversationId,
+    conversations,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+    snapshotConversation,
+    importConversation,
   };
 
   return <SharedChatContext.Provider value={value}>{children}</SharedChatContext.Provider>;
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, ReactNode, useCallback } from 'react';
 import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
+import type { MessageId } from '../utils/messages';
 
 interface TTSSettings {
   autoSpeak: boolean;
@@ -11,7 +12,8 @@ interface TTSSettings {
 
 interface TTSContextType {
   // TTS functionality
-  speak: (text: string, messageId?: number) => void;
+  speak: (text: string, messageId?: MessageId) => void;
+  speakCode: (code: string) => void;
   stop: () => void;
   pause: () => void;
   resume: () => void;
@@ -21,7 +23,7 @@ interface TTSContextType {
   isPaused: boolean;
   isSupported: boolean;
   currentText: string;
-  currentMessageId: number | null;
+  currentMessageId: MessageId | null;
   
   // Settings
   settings: TTSSettings;
@@ -62,6 +64,7 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children }) => {
   
   const {
     speak: synthSpeak,
+    speakCode,
     stop: synthStop,
     pause: synthPause,
     resume: synthResume,
@@ -101,7 +104,7 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children }) => {
     }
   }, [voices, settings.voice, updateSettings]);
 
-  const speak = useCallback((text: string, messageId?: number) => {
+  const speak = useCallback((text: string, messageId?: MessageId) => {
     if (!text.trim()) return;
     synthSpeak(text, messageId);
   }, [synthSpeak]);
@@ -144,6 +147,7 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children }) => {
 
   const value: TTSContextType = {
     speak,
+    speakCode,
     stop,
     pause,
     resume,
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { LLMProvider } from '../llm'
+
+// How often to re-check while the model is still downloading
+const POLL_INTERVAL_MS = 2000
+
+interface AIAvailabilityHook {
+  isAvailable: boolean
+  isReady: boolean
+  status: string
+  downloadProgress: number | null
+  downloadError: string | null
+  checkAvailability: () => Promise<void>
+  startDownload: () => Promise<void>
+}
+
+export const useAIAvailability = (provider: LLMProvider): AIAvailabilityHook => {
+  const [isAvailable, setIsAvailable] = useState(false)
+  const [isReady, setIsReady] = useState(false)
+  const [status, setStatus] = useState('checking')
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null)
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const isDownloadingRef = useRef(false)
+
+  const checkAvailability = useCallback(async () => {
+    try {
+      const availability = await provider.availability()
+
+      if (availability === 'unavailable') {
+        setStatus('not-available')
+        setIsAvailable(false)
+        setIsReady(false)
+        return
+      }
+
+      setStatus(availability)
+      setIsAvailable(true)
+      setIsReady(availability === 'available')
+
+      console.log(`${provider.label} availability:`, availability)
+    } catch (error) {
+      console.error(`Error checking ${provider.label}:`, error)
+      setStatus('error')
+      setIsAvailable(false)
+      setIsReady(false)
+    }
+  }, [provider])
+
+  const startDownload = useCallback(async () => {
+    if (!provider.download || isDownloadingRef.current) return
+
+    isDownloadingRef.current = true
+    setDownloadError(null)
+    setDownloadProgress(0)
+    setStatus('downloading')
+
+    try {
+      await provider.download(setDownloadProgress)
+    } catch (error) {
+      console.error(`Error downloading ${provider.label}:`, error)
+      setDownloadError(error instanceof Error ? error.message : 'Download failed')
+      setDownloadProgress(null)
+    } finally {
+      isDownloadingRef.current = false
+      await checkAvailability()
+    }
+  }, [provider, checkAvailability])
+
+  useEffect(() => {
+    setStatus('checking')
+    setDownloadProgress(null)
+    setDownloadError(null)
+    checkAvailability()
+  }, [checkAvailability])
+
+  // Keep checking until the download finishes, including ones started
+  // elsewhere (another tab, or an earlier visit)
+  useEffect(() => {
+    if (status !== 'downloading') return
+
+    const timer = setInterval(checkAvailability, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [status, checkAvailability])
+
+  return {
+    isAvailable,
+    isReady,
+    status,
+    downloadProgress,
+    downloadError,
+    checkAvailability,
+    startDownload
+  }
+}
@@ -1,111 +1,23 @@
-import { useRef, useCallback } from 'react';
+import type { LLMProvider } from '../llm';
+import { getSessionService } from '../llm/sessionService';
+import { useStore } from './useStore';
 
-interface AISessionConfig {
-  temperature?: number;
-  topK?: number;
-  expectedInputs?: { type: string }[];
-  outputLanguage?: string;
-  systemPrompt?: string;
-}
-
-interface AISession {
-  append: (messages: any[]) => Promise<void>;
-  promptStreaming: (prompt: string) => AsyncIterable<string>;
-  destroy: () => void;
-}
-
-export const useAISession = () => {
-  const sessionRef = useRef<AISession | null>(null);
-  const isCreatingRef = useRef(false);
-
-  const createSession = useCallback(async (config: AISessionConfig): Promise<AISession | null> => {
-    // Prevent concurrent session creation
-    if (isCreatingRef.current) {
-      // Wait for existing creation to complete
-      while (isCreatingRef.current) {
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-      return sessionRef.current;
-    }
-
-    try {
-      isCreatingRef.current = true;
-
-      // Check if Chrome AI is available
-      if (typeof window.LanguageModel === "undefined") {
-        throw new Error("Chrome AI not available");
-      }
-
-      const availability = await window.LanguageModel.availability();
-      if (availability !== "available") {
-        throw new Error(`AI Status: ${availability}`);
-      }
-
-      const params = await window.LanguageModel.params();
-      
-      const session = await window.LanguageModel.create({
-        temperature: config.temperature ?? params.defaultTemperature,
-        topK: config.topK ?? params.defaultTopK,
-        expectedInputs: config.expectedInputs,
-        outputLanguage: config.outputLanguage ?? "en",
-        systemPrompt: config.systemPrompt,
-      });
-
-      sessionRef.current = session;
-      return session;
-    } catch (error) {
-      console.error("Failed to create AI session:", error);
-      sessionRef.current = null;
-      throw error;
-    } finally {
-      isCreatingRef.current = false;
-    }
-  }, []);
-
-  const getOrCreateSession = useCallback(async (config: AISessionConfig): Promise<AISession | null> => {
-    // Return existing session if available
-    if (sessionRef.current) {
-      return sessionRef.current;
-    }
-
-    // Create new session
-    return await createSession(config);
-  }, [createSession]);
-
-  const recreateSession = useCallback(async (config: AISessionConfig): Promise<AISession | null> => {
-    // Destroy existing session
-    if (sessionRef.current) {
-      try {
-        sessionRef.current.destroy();
-      } catch (error) {
-        console.warn("Error destroying existing session:", error);
-      }
-      sessionRef.current = null;
-    }
-
-    // Create new session
-    return await createSession(config);
-  }, [createSession]);
-
-  const destroySession = useCallback(() => {
-    if (sessionRef.current) {
-      try {
-        sessionRef.current.destroy();
-      } catch (error) {
-        console.warn("Error destroying session:", error);
-      }
-      sessionRef.current = null;
-    }
-  }, []);
-
-  const hasSession = useCallback(() => {
-    return sessionRef.current !== null;
-  }, []);
+// The shared model session, as seen from one window. Unmounting does not
+// end it: the other window may still be using it. SettingsProvider ends it
+// when the provider is replaced.
+export const useAISession = (provider: LLMProvider) => {
+  const service = getSessionService(provider);
+  const { usage } = useStore(service.usage);
 
   return {
-    getOrCreateSession,
-    recreateSession,
-    destroySession,
-    hasSession,
+    getOrCreateSession: service.getOrCreateSession,
+    recreateSession: service.recreateSession,
+    replaceSession: service.replaceSession,
+    destroySession: service.destroySession,
+    hasSession: service.hasSession,
+    saveCheckpoint: service.saveCheckpoint,
+    restoreCheckpoint: service.restoreCheckpoint,
+    usage,
+    refreshUsage: service.refreshUsage,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChatStore } from '../contexts/SharedChatContext';
+import { useStore } from './useStore';
+
+export interface QueuedQuery {
+  id: string;
+  text: string;
+}
+
+// Follow-up questions typed while the assistant is busy. They wait in order
+// (and can be reordered or cancelled) and each runs once the previous
+// query has finished, so it gets its own fresh screen capture.
+//
+// The queue and the controller of the query in progress live in the chat
+// store, so both windows see the same queue and either can stop the
+// answer. Only the window that passes runQuery runs the queue: the main
+// window, which outlives the floating one.
+export const useQueryQueue = (
+  store: ChatStore,
+  runQuery?: (query: string) => Promise<void>
+) => {
+  const { queuedQueries: queue, isThinking } = useStore(store);
+  const [isRunning, setIsRunning] = useState(false);
+  const runQueryRef = useRef(runQuery);
+  runQueryRef.current = runQuery;
+
+  useEffect(() => {
+    const next = queue[0];
+    const run = runQueryRef.current;
+    if (!run || isThinking || isRunning || !next) return;
+
+    store.setState((state) => ({ queuedQueries: state.queuedQueries.slice(1) }));
+    setIsRunning(true);
+    run(next.text).finally(() => setIsRunning(false));
+  }, [store, isThinking, isRunning, queue]);
+
+  const enqueue = useCallback((text: string) => {
+    store.setState((state) => ({
+      queuedQueries: [
+        ...state.queuedQueries,
+        { id: `${Date.now()}-${state.queuedQueries.length}`, text },
+      ],
+    }));
+  }, [store]);
+
+  const cancel = useCallback((id: string) => {
+    store.setState((state) => ({
+      queuedQueries: state.queuedQueries.filter((query) => query.id !== id),
+    }));
+  }, [store]);
+
+  // Move a query earlier (negative offset) or later in the queue
+  const move = useCallback((id: string, offset: number) => {
+    store.setState((state) => {
+      const from = state.queuedQueries.findIndex((query) => query.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= state.queuedQueries.length) return {};
+
+      const next = [...state.queuedQueries];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved!);
+      return { queuedQueries: next };
+    });
+  }, [store]);
+
+  const clear = useCallback(() => store.setState({ queuedQueries: [] }), [store]);
+
+  // Run a query under a controller kept in the store
+  const track = useCallback(async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    store.setState({ activeRun: controller });
+    try {
+      await task(controller.signal);
+    } finally {
+      store.setState((state) => (state.activeRun === controller ? { activeRun: null } : {}));
+    }
+  }, [store]);
+
+  // Stop the query in progress, whichever window started it
+  const stop = useCallback(() => store.getState().activeRun?.abort(), [store]);
+
+  return {
+    queue,
+    enqueue,
+    cancel,
+    move,
+    clear,
+    track,
+    stop,
+  };
+};
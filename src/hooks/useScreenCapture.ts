@@ -3,12 +3,15 @@ import { useRef, useCallback } from "react";
 interface ScreenCaptureOptions {
   excludeOwnWindow?: boolean;
   quality?: number;
+  onStreamEnded?: () => void; // the user stopped sharing from the browser UI
 }
 
 export const useScreenCapture = (options: ScreenCaptureOptions = {}) => {
-  const { excludeOwnWindow = true, quality = 0.8 } = options;
+  const { excludeOwnWindow = true, quality = 0.8, onStreamEnded } = options;
   const streamRef = useRef<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onStreamEndedRef = useRef(onStreamEnded);
+  onStreamEndedRef.current = onStreamEnded;
 
   const requestScreenAccess = useCallback(async (): Promise<boolean> => {
     try {
@@ -52,6 +55,12 @@ export const useScreenCapture = (options: ScreenCaptureOptions = {}) => {
 
       streamRef.current = stream;
 
+      // "ended" only fires when sharing stops outside the app, e.g. from
+      // Chrome's "Stop sharing" bar; stopCapture() does not trigger it
+      stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+        if (streamRef.current === stream) onStreamEndedRef.current?.();
+      });
+
       // Create video element for capturing frames
       const video = document.createElement("video");
       video.srcObject = stream;
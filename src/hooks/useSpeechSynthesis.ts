@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from "react";
+import type { MessageId } from "../utils/messages";
 
 interface SpeechSettings {
   rate: number;
@@ -8,7 +9,8 @@ interface SpeechSettings {
 }
 
 interface UseSpeechSynthesisReturn {
-  speak: (text: string, messageId?: number) => void;
+  speak: (text: string, messageId?: MessageId) => void;
+  speakCode: (code: string) => void;
   stop: () => void;
   pause: () => void;
   resume: () => void;
@@ -19,7 +21,7 @@ interface UseSpeechSynthesisReturn {
   settings: SpeechSettings;
   updateSettings: (newSettings: Partial<SpeechSettings>) => void;
   currentText: string;
-  currentMessageId: number | null;
+  currentMessageId: MessageId | null;
 }
 
 const defaultSettings: SpeechSettings = {
@@ -29,13 +31,50 @@ const defaultSettings: SpeechSettings = {
   voice: null,
 };
 
+// Symbols read out by name so a listener can follow code without seeing it
+const CODE_SYMBOLS: [RegExp, string][] = [
+  [/===/g, " strictly equals "],
+  [/!==/g, " strictly not equals "],
+  [/==/g, " equals "],
+  [/!=/g, " not equals "],
+  [/=>/g, " arrow "],
+  [/<=/g, " less or equal "],
+  [/>=/g, " greater or equal "],
+  [/&&/g, " and "],
+  [/\|\|/g, " or "],
+  [/\+\+/g, " plus plus "],
+  [/--/g, " minus minus "],
+  [/=/g, " equals "],
+  [/\{/g, " open brace "],
+  [/\}/g, " close brace "],
+  [/\(/g, " open paren "],
+  [/\)/g, " close paren "],
+  [/\[/g, " open bracket "],
+  [/\]/g, " close bracket "],
+  [/</g, " less than "],
+  [/>/g, " greater than "],
+  [/;/g, " semicolon "],
+  [/\./g, " dot "],
+  [/,/g, " comma "],
+  [/:/g, " colon "],
+  [/["'`]/g, " quote "],
+];
+
+const speakableCodeLine = (line: string) =>
+  CODE_SYMBOLS.reduce(
+    (text, [symbol, name]) => text.replace(symbol, name),
+    line.trim()
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
 export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [settings, setSettings] = useState<SpeechSettings>(defaultSettings);
   const [currentText, setCurrentText] = useState("");
-  const [currentMessageId, setCurrentMessageId] = useState<number | null>(null);
+  const [currentMessageId, setCurrentMessageId] = useState<MessageId | null>(null);
 
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
   const isSupported =
@@ -179,7 +218,7 @@ export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
   }, []);
 
   const speak = useCallback(
-    (text: string, messageId?: number) => {
+    (text: string, messageId?: MessageId) => {
       if (!isSupported || !text.trim()) return;
 
       const cleanedText = cleanText(text);
@@ -249,6 +288,59 @@ export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
     [isSupported, settings, cleanText]
   );
 
+  // Read code one line per utterance so pauses fall between lines
+  const speakCode = useCallback(
+    (code: string) => {
+      if (!isSupported) return;
+
+      const lines = code
+        .split("\n")
+        .map(speakableCodeLine)
+        .filter((line) => line !== "");
+      if (lines.length === 0) return;
+
+      speechSynthesis.cancel();
+      setCurrentMessageId(null);
+      setCurrentText(code);
+
+      const finish = () => {
+        setIsSpeaking(false);
+        setIsPaused(false);
+        setCurrentText("");
+      };
+
+      lines.forEach((line, index) => {
+        const utterance = new SpeechSynthesisUtterance(line);
+        utterance.rate = settings.rate;
+        utterance.pitch = settings.pitch;
+        utterance.volume = settings.volume;
+        if (settings.voice) utterance.voice = settings.voice;
+        utterance.lang = settings.voice?.lang || "en-US";
+
+        if (index === 0) {
+          utterance.onstart = () => {
+            setIsSpeaking(true);
+            setIsPaused(false);
+          };
+        }
+        if (index === lines.length - 1) {
+          utterance.onend = finish;
+        }
+        utterance.onerror = (event) => {
+          // Cancelling the queue interrupts every pending line
+          if (event.error !== "interrupted" && event.error !== "canceled") {
+            console.error("Speech synthesis error:", event);
+          }
+          finish();
+        };
+
+        utteranceRef.current = utterance;
+        speechSynthesis.speak(utterance);
+      });
+    },
+    [isSupported, settings]
+  );
+
   const stop = useCallback(() => {
     if (!isSupported) return;
 
@@ -288,6 +380,7 @@ export const useSpeechSynthesis = (): UseSpeechSynthesisReturn => {
 
   return {
     speak,
+    speakCode,
     stop,
     pause,
     resume,
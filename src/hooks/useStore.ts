@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import type { Store } from '../utils/store';
+
+// The store's current state; re-renders on every change, from either window
+export const useStore = <T>(store: Store<T>) =>
+  useSyncExternalStore(store.subscribe, store.getState);
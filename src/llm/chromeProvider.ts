@@ -0,0 +1,125 @@
+import type {
+  AISession,
+  AISessionConfig,
+  LLMAvailability,
+  LLMMessage,
+  LLMProvider,
+  PromptOptions,
+} from "./types";
+
+// The parts of a native LanguageModel session the adapter uses
+interface NativeSession {
+  prompt: (input: string, options?: PromptOptions) => Promise<string>;
+  promptStreaming: (input: string, options?: PromptOptions) => AsyncIterable<string>;
+  append: (messages: LLMMessage[]) => Promise<void>;
+  clone: () => Promise<NativeSession>;
+  destroy: () => void;
+  inputUsage?: number;
+  inputQuota?: number;
+  tokensSoFar?: number;
+  maxTokens?: number;
+}
+
+// Dispatched on the create() monitor while the model downloads
+interface DownloadProgressEvent extends Event {
+  loaded: number;
+  total: number;
+}
+
+// Adapts a native LanguageModel session to the AISession contract
+const wrapSession = (session: NativeSession): AISession => ({
+  append: (messages) => session.append(messages),
+  promptStreaming: (prompt, options) => session.promptStreaming(prompt, options),
+  clone: async () => wrapSession(await session.clone()),
+  destroy: () => session.destroy(),
+  // Older Chrome builds call these tokensSoFar / maxTokens
+  get inputUsage() {
+    return session.inputUsage ?? session.tokensSoFar ?? 0;
+  },
+  get inputQuota() {
+    return session.inputQuota ?? session.maxTokens ?? 0;
+  },
+});
+
+// Chrome's built-in Prompt API (Gemini Nano) exposed as window.LanguageModel
+export const createChromeProvider = (): LLMProvider => {
+  const availability = async (): Promise<LLMAvailability> => {
+    if (typeof window.LanguageModel === "undefined") {
+      return "unavailable";
+    }
+    return await window.LanguageModel.availability();
+  };
+
+  const create = async (config: AISessionConfig): Promise<AISession> => {
+    if (typeof window.LanguageModel === "undefined") {
+      throw new Error("Chrome AI not available");
+    }
+
+    const status = await availability();
+    if (status !== "available") {
+      throw new Error(`AI Status: ${status}`);
+    }
+
+    const params = await window.LanguageModel.params();
+
+    // The Prompt API rejects systemPrompt next to initialPrompts, so the
+    // system prompt moves into the seeded turns when there are any
+    const seed = config.initialPrompts?.length
+      ? {
+          initialPrompts: [
+            ...(config.systemPrompt
+              ? [{ role: "system", content: config.systemPrompt }]
+              : []),
+            ...config.initialPrompts,
+          ],
+        }
+      : { systemPrompt: config.systemPrompt };
+
+    const session: NativeSession = await window.LanguageModel.create({
+      temperature: config.temperature ?? params.defaultTemperature,
+      topK: config.topK ?? params.defaultTopK,
+      expectedInputs: config.expectedInputs,
+      outputLanguage: config.outputLanguage ?? "en",
+      ...seed,
+    });
+    return wrapSession(session);
+  };
+
+  // Creating a session is what starts the download; the monitor reports
+  // its progress. Chrome only allows this in response to a user gesture
+  // unless the download has already begun.
+  const download = async (onProgress: (progress: number) => void) => {
+    if (typeof window.LanguageModel === "undefined") {
+      throw new Error("Chrome AI not available");
+    }
+
+    const monitor = (m: EventTarget) => {
+      m.addEventListener("downloadprogress", (event) => {
+        // Older builds report bytes, newer ones a 0-1 fraction
+        const { loaded, total } = event as DownloadProgressEvent;
+        onProgress(total > 1 ? loaded / total : loaded);
+      });
+    };
+
+    let session: NativeSession;
+    try {
+      session = await window.LanguageModel.create({
+        expectedInputs: [{ type: "image" }],
+        monitor,
+      });
+    } catch (error) {
+      console.warn("Image input unavailable, downloading the text model:", error);
+      session = await window.LanguageModel.create({ monitor });
+    }
+    session.destroy();
+    onProgress(1);
+  };
+
+  return {
+    id: "chrome",
+    label: "Chrome AI (Gemini Nano)",
+    availability,
+    create,
+    download,
+  };
+};
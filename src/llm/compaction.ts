@@ -0,0 +1,91 @@
+import type { ConversationSummary } from "../contexts/SharedChatContext";
+import type { Message } from "../utils/messages";
+import { estimateTokens } from "./tokens";
+import type { LLMMessage, LLMProvider, SessionUsage } from "./types";
+
+// Compact once the session context is this full
+export const COMPACTION_THRESHOLD = 0.8;
+
+// Share of the context window kept as verbatim recent turns after compaction
+export const RECENT_TURNS_SHARE = 0.25;
+
+// History budget used when a session is rebuilt without a known quota
+export const DEFAULT_HISTORY_BUDGET = 1500;
+
+const SUMMARIZER_PROMPT = `You condense chat transcripts between a user and an AI screen assistant.
+Write a compact summary in plain prose that keeps every fact, decision, name, number, error message and open question the assistant may need later.
+Do not add commentary or greet anyone. Reply with the summary only.`;
+
+export const needsCompaction = (usage: SessionUsage | null) =>
+  !!usage && usage.quota > 0 && usage.used / usage.quota >= COMPACTION_THRESHOLD;
+
+// Only user and assistant messages make up the conversation the model sees
+export const conversationTurns = (messages: Message[]) =>
+  messages.filter((msg) => msg.type === "user" || msg.type === "assistant");
+
+// Turns that happened after the point the running summary covers
+export const unsummarizedTurns = (
+  messages: Message[],
+  summary: ConversationSummary | null
+) => {
+  const turns = conversationTurns(messages);
+  if (!summary) return turns;
+
+  const coveredIndex = turns.findIndex((msg) => msg.id === summary.throughMessageId);
+  return coveredIndex === -1 ? turns : turns.slice(coveredIndex + 1);
+};
+
+export const formatTranscript = (turns: Message[]) =>
+  turns
+    .map((msg) => {
+      const role = msg.type === "user" ? "User" : "Assistant";
+      return `${role}: ${msg.content.trim()}`;
+    })
+    .join("\n\n");
+
+// Newest turns that fit in the token budget, oldest first
+export const selectRecentTurns = (turns: Message[], budgetTokens: number) => {
+  const selected: Message[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i]!;
+    const cost = estimateTokens(turn.content) + 4; // role label overhead
+    if (used + cost > budgetTokens) break;
+    selected.unshift(turn);
+    used += cost;
+  }
+
+  return selected;
+};
+
+export const turnsToPrompts = (turns: Message[]): LLMMessage[] =>
+  turns.map((msg) => ({
+    role: msg.type === "user" ? "user" : "assistant",
+    content: msg.content,
+  }));
+
+// Fold older turns (and any earlier summary) into a fresh summary using a
+// short-lived session so the chat session itself is left untouched
+export const summarizeConversation = async (
+  provider: LLMProvider,
+  previousSummary: string,
+  turns: Message[]
+) => {
+  const session = await provider.create({ systemPrompt: SUMMARIZER_PROMPT });
+
+  try {
+    const transcript = formatTranscript(turns);
+    const input = previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nNew conversation to fold in:\n${transcript}`
+      : transcript;
+
+    let summary = "";
+    for await (const chunk of session.promptStreaming(input)) {
+      summary += chunk;
+    }
+    return summary.trim();
+  } finally {
+    session.destroy();
+  }
+};
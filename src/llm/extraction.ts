@@ -0,0 +1,191 @@
+import { dataUrlToBlob } from "../utils/image";
+import { extractTextFromImage } from "../utils/ocr";
+import type { AISession, JSONSchema, LLMProvider } from "./types";
+
+// User-defined templates for pulling the same fields off the screen again
+// and again. Each one is a JSON Schema the model's reply is constrained to.
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  schema: JSONSchema;
+}
+
+export type ExtractedData = Record<string, unknown>;
+
+export interface ExtractionResult {
+  data: ExtractedData;
+  source: "image" | "ocr"; // whether the model saw the frame or its OCR text
+}
+
+const nullable = (type: string) => ({ type: [type, "null"] });
+
+export const DEFAULT_EXTRACTION_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: "invoice",
+    name: "Invoice",
+    schema: {
+      type: "object",
+      properties: {
+        invoiceNumber: nullable("string"),
+        issueDate: nullable("string"),
+        vendor: nullable("string"),
+        total: nullable("number"),
+        currency: nullable("string"),
+      },
+      required: ["invoiceNumber", "issueDate", "vendor", "total", "currency"],
+    },
+  },
+  {
+    id: "ticket",
+    name: "Support ticket",
+    schema: {
+      type: "object",
+      properties: {
+        ticketId: nullable("string"),
+        title: nullable("string"),
+        status: nullable("string"),
+        priority: nullable("string"),
+        assignee: nullable("string"),
+      },
+      required: ["ticketId", "title", "status", "priority", "assignee"],
+    },
+  },
+  {
+    id: "error",
+    name: "Error",
+    schema: {
+      type: "object",
+      properties: {
+        errorCode: nullable("string"),
+        message: nullable("string"),
+        source: nullable("string"),
+        stackTrace: { type: "array", items: { type: "string" } },
+      },
+      required: ["errorCode", "message", "source", "stackTrace"],
+    },
+  },
+];
+
+const EXTRACTOR_PROMPT = `You extract structured data from a user's screen.
+Reply with JSON that matches the given schema and nothing else.
+Copy values exactly as they appear on screen. Use null for any field that is not visible.`;
+
+// A usable template schema describes a JSON object
+export const parseTemplateSchema = (text: string): JSONSchema => {
+  const schema = JSON.parse(text);
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error("The schema must be a JSON object");
+  }
+  if (schema.type !== "object") {
+    throw new Error('The schema must describe an object ("type": "object")');
+  }
+  return schema;
+};
+
+// Constrained output is plain JSON, but unconstrained fallbacks sometimes
+// wrap it in a code fence or add a sentence around it
+const parseExtractedData = (text: string): ExtractedData => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("The model did not return JSON");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+};
+
+const promptForData = async (
+  session: AISession,
+  prompt: string,
+  schema: JSONSchema,
+  signal?: AbortSignal
+) => {
+  let reply = "";
+  for await (const chunk of session.promptStreaming(prompt, {
+    signal,
+    responseConstraint: schema,
+  })) {
+    reply += chunk;
+  }
+  return parseExtractedData(reply);
+};
+
+interface ExtractionOptions {
+  signal?: AbortSignal;
+  onStage?: (stage: string) => void;
+}
+
+// Run a template against one frame in a short-lived session so the chat
+// session is left untouched. The frame goes in as an image first; if the
+// provider cannot take images, its OCR text is used instead.
+export const extractFromScreen = async (
+  provider: LLMProvider,
+  template: ExtractionTemplate,
+  screenshot: string,
+  { signal, onStage }: ExtractionOptions = {}
+): Promise<ExtractionResult> => {
+  const instruction = `Extract the "${template.name}" fields from the screen.`;
+
+  let session: AISession | null = null;
+  try {
+    session = await provider.create({
+      systemPrompt: EXTRACTOR_PROMPT,
+      expectedInputs: [{ type: "image" }],
+      temperature: 0,
+      topK: 1,
+    });
+    await session.append([
+      {
+        role: "user",
+        content: [
+          { type: "text", value: "Here is the screen." },
+          { type: "image", value: dataUrlToBlob(screenshot) },
+        ],
+      },
+    ]);
+    return {
+      data: await promptForData(session, instruction, template.schema, signal),
+      source: "image",
+    };
+  } catch (multimodalError) {
+    if (signal?.aborted) throw multimodalError;
+    console.log(
+      "Image extraction failed, falling back to OCR:",
+      multimodalError instanceof Error ? multimodalError.message : multimodalError
+    );
+  } finally {
+    session?.destroy();
+  }
+
+  onStage?.("🔍 Reading text from your screen...");
+  const screenText = await extractTextFromImage(screenshot, (progress) =>
+    onStage?.(`🔍 Reading text ${Math.round(progress * 100)}%`)
+  );
+  if (!screenText) {
+    throw new Error("No text could be read from the screen");
+  }
+
+  onStage?.(`🧾 Extracting ${template.name}...`);
+  const textSession = await provider.create({
+    systemPrompt: EXTRACTOR_PROMPT,
+    temperature: 0,
+    topK: 1,
+  });
+  try {
+    return {
+      data: await promptForData(
+        textSession,
+        `Screen content: "${screenText}"\n\n${instruction}`,
+        template.schema,
+        signal
+      ),
+      source: "ocr",
+    };
+  } finally {
+    textSession.destroy();
+  }
+};
+
+// How an extraction reads in the transcript the model sees later
+export const formatExtraction = (templateName: string, data: ExtractedData) =>
+  `Extracted ${templateName} fields:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
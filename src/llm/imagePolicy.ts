@@ -0,0 +1,87 @@
+import { grayscaleThumbnail, thumbnailDifference } from "../utils/image";
+import type { AISession } from "./types";
+
+// Which frames actually go into a session. Every query captures the screen,
+// but most of the time it has not changed, and each image eats a large
+// share of the context window. Frames are compared to the last one sent:
+// unchanged ones are not sent again, and once too many images are live the
+// session is rebuilt so only the new frame stays. Telling the model an old
+// frame still holds is worse than sending a repeat, so only frames that are
+// byte for byte the same or practically pixel for pixel the same are reused.
+
+// Largest difference, in gray levels of 255, a thumbnail cell may show for
+// the frame to count as unchanged. One changed character on a 1080p screen
+// moves the cell it falls in by a few levels, more than scaling noise does.
+export const SAME_FRAME_MAX_DIFFERENCE = 2;
+export const SAME_FRAME_MEAN_DIFFERENCE = 0.25;
+
+// Images a session may hold before it is rebuilt without them
+export const MAX_LIVE_IMAGES = 3;
+
+export const REUSED_FRAME_NOTE =
+  "[The screen has not changed since the last screenshot I shared, so refer to that one.]";
+
+// A frame as sent to a session, kept to compare the next one against
+export interface Frame {
+  dataUrl: string;
+  thumbnail: Uint8Array | null; // null when the image could not be scaled
+}
+
+interface ImageContext {
+  lastFrame: Frame;
+  liveImages: number;
+}
+
+// Keyed by session, so a new or rebuilt session starts with no frames
+const imageContexts = new WeakMap<AISession, ImageContext>();
+
+export type FrameDecision =
+  | { action: "reuse" } // the session already holds this screen
+  | { action: "send"; frame: Frame }
+  | { action: "reset"; frame: Frame }; // send, after dropping older images
+
+const looksTheSame = (frame: Frame, last: Frame) => {
+  if (!frame.thumbnail || !last.thumbnail) return false;
+
+  const { mean, max } = thumbnailDifference(frame.thumbnail, last.thumbnail);
+  return max <= SAME_FRAME_MAX_DIFFERENCE && mean <= SAME_FRAME_MEAN_DIFFERENCE;
+};
+
+export const planFrame = async (
+  session: AISession,
+  screenshot: string
+): Promise<FrameDecision> => {
+  // The exact same image needs no closer look
+  const context = imageContexts.get(session);
+  if (context?.lastFrame.dataUrl === screenshot) return { action: "reuse" };
+
+  let thumbnail: Uint8Array | null = null;
+  try {
+    thumbnail = await grayscaleThumbnail(screenshot);
+  } catch (error) {
+    console.warn("Could not compare screenshot, sending it as is:", error);
+  }
+  const frame = { dataUrl: screenshot, thumbnail };
+
+  if (!context) return { action: "send", frame };
+  if (looksTheSame(frame, context.lastFrame)) return { action: "reuse" };
+
+  return context.liveImages >= MAX_LIVE_IMAGES
+    ? { action: "reset", frame }
+    : { action: "send", frame };
+};
+
+// Note a frame that was appended to the session
+export const recordFrame = (session: AISession, frame: Frame) => {
+  const context = imageContexts.get(session);
+  imageContexts.set(session, {
+    lastFrame: frame,
+    liveImages: (context?.liveImages ?? 0) + 1,
+  });
+};
+
+// A clone holds the same images as the session it was cloned from
+export const copyImageContext = (source: AISession, clone: AISession) => {
+  const context = imageContexts.get(source);
+  if (context) imageContexts.set(clone, { ...context });
+};
@@ -0,0 +1,28 @@
+import { createChromeProvider } from "./chromeProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+import type { LLMProvider, ProviderId } from "./types";
+
+export * from "./types";
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  openAIBaseUrl: string;
+  openAIModel: string;
+  openAIApiKey: string;
+  openAIContextSize: number;
+}
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.providerId) {
+    case "openai":
+      return createOpenAIProvider({
+        baseUrl: settings.openAIBaseUrl,
+        model: settings.openAIModel,
+        apiKey: settings.openAIApiKey || undefined,
+        contextSize: settings.openAIContextSize,
+      });
+    case "chrome":
+    default:
+      return createChromeProvider();
+  }
+};
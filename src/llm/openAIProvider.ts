@@ -0,0 +1,208 @@
+import type {
+  AISession,
+  AISessionConfig,
+  LLMAvailability,
+  LLMMessage,
+  LLMProvider,
+  PromptOptions,
+} from "./types";
+import { estimateMessageTokens, estimateTokens } from "./tokens";
+
+export interface OpenAIProviderOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  model: string;
+  apiKey?: string;
+  contextSize: number; // the server's context window, in tokens
+}
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toChatMessage = async (message: LLMMessage): Promise<ChatMessage> => {
+  if (typeof message.content === "string") {
+    return { role: message.role, content: message.content };
+  }
+
+  const parts: ChatContentPart[] = [];
+  for (const part of message.content) {
+    if (part.type === "text") {
+      parts.push({ type: "text", text: part.value });
+    } else {
+      parts.push({
+        type: "image_url",
+        image_url: { url: await blobToDataUrl(part.value) },
+      });
+    }
+  }
+  return { role: message.role, content: parts };
+};
+
+// Any server speaking the OpenAI chat completions protocol
+// (llama.cpp server, Ollama, LM Studio, vLLM, ...)
+export const createOpenAIProvider = ({
+  baseUrl,
+  model,
+  apiKey,
+  contextSize,
+}: OpenAIProviderOptions): LLMProvider => {
+  const endpoint = baseUrl.replace(/\/+$/, "");
+
+  const headers = (): Record<string, string> => ({
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  });
+
+  const availability = async (): Promise<LLMAvailability> => {
+    try {
+      const response = await fetch(`${endpoint}/models`, { headers: headers() });
+      return response.ok ? "available" : "unavailable";
+    } catch (error) {
+      console.warn("OpenAI-compatible endpoint unreachable:", error);
+      return "unavailable";
+    }
+  };
+
+  // The HTTP API is stateless, so the session keeps the transcript itself
+  const openSession = (
+    config: AISessionConfig,
+    history: ChatMessage[],
+    initialUsage: number
+  ): AISession => {
+    let inputUsage = initialUsage;
+
+    const record = async (messages: LLMMessage[]) => {
+      for (const message of messages) {
+        history.push(await toChatMessage(message));
+        inputUsage += estimateMessageTokens(message);
+      }
+    };
+
+    async function* promptStreaming(
+      prompt: string,
+      options: PromptOptions = {}
+    ): AsyncIterable<string> {
+      const userMessage: ChatMessage = { role: "user", content: prompt };
+
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: "POST",
+        headers: headers(),
+        signal: options.signal,
+        body: JSON.stringify({
+          model,
+          messages: [...history, userMessage],
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: config.temperature,
+          top_k: config.topK,
+          ...(options.responseConstraint
+            ? {
+                response_format: {
+                  type: "json_schema",
+                  json_schema: { name: "response", schema: options.responseConstraint },
+                },
+              }
+            : {}),
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Endpoint error: ${response.status} ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let answer = "";
+      let reportedUsage: number | null = null;
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+
+          for (const line of lines) {
+            if (!line.startsWith("data:")) continue;
+            const data = line.slice("data:".length).trim();
+            if (!data || data === "[DONE]") continue;
+
+            const payload = JSON.parse(data);
+            if (payload.usage) {
+              reportedUsage =
+                payload.usage.prompt_tokens + payload.usage.completion_tokens;
+            }
+
+            const delta = payload.choices?.[0]?.delta?.content;
+            if (delta) {
+              answer += delta;
+              yield delta;
+            }
+          }
+        }
+      } catch (error) {
+        // A stopped answer still happened from the user's point of view, so
+        // keep its partial text in the transcript. Other failures leave the
+        // transcript untouched so the prompt can be retried.
+        if (options.signal?.aborted && answer) {
+          history.push(userMessage, { role: "assistant", content: answer });
+          inputUsage += estimateTokens(prompt) + estimateTokens(answer);
+        }
+        throw error;
+      }
+
+      history.push(userMessage, { role: "assistant", content: answer });
+      inputUsage =
+        reportedUsage ?? inputUsage + estimateTokens(prompt) + estimateTokens(answer);
+    }
+
+    return {
+      append: record,
+      promptStreaming,
+      // Cloning is just copying the transcript
+      clone: async () => openSession(config, [...history], inputUsage),
+      destroy: () => {
+        history.length = 0;
+        inputUsage = 0;
+      },
+      get inputUsage() {
+        return inputUsage;
+      },
+      inputQuota: contextSize,
+    };
+  };
+
+  const create = async (config: AISessionConfig): Promise<AISession> => {
+    const session = openSession(config, [], 0);
+
+    if (config.systemPrompt) {
+      await session.append([{ role: "system", content: config.systemPrompt }]);
+    }
+    await session.append(config.initialPrompts ?? []);
+
+    return session;
+  };
+
+  return {
+    id: "openai",
+    label: `OpenAI-compatible (${model})`,
+    availability,
+    create,
+  };
+};
@@ -0,0 +1,77 @@
+// Assistant profiles: the persona, sampling and answer style a chat session
+// is created with. Users pick one from the chat header and can edit them in
+// the settings panel.
+
+export type AnswerLength = "brief" | "balanced" | "detailed";
+
+export interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string; // who the assistant is and what it focuses on
+  temperature?: number; // unset means the provider default
+  topK?: number;
+  outputLanguage: string; // BCP 47 code, e.g. "en"
+  answerLength: AnswerLength;
+  tools: boolean; // let the model request tools such as a fresh screenshot
+}
+
+// Languages Chrome's Prompt API accepts as outputLanguage
+export const OUTPUT_LANGUAGES: { code: string; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "ja", label: "Japanese" },
+];
+
+export const ANSWER_LENGTH_GUIDELINES: Record<AnswerLength, string> = {
+  brief: "Answer in one to three sentences unless the user asks for more",
+  balanced: "Be conversational and brief unless detail is requested",
+  detailed: "Give thorough, well-structured answers with examples where useful",
+};
+
+export const DEFAULT_PROFILE_ID = "general";
+
+export const DEFAULT_PROFILES: AssistantProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: "General",
+    systemPrompt: "You are a helpful AI assistant.",
+    outputLanguage: "en",
+    answerLength: "balanced",
+    tools: true,
+  },
+  {
+    id: "code-reviewer",
+    name: "Code reviewer",
+    systemPrompt:
+      "You are a senior software engineer reviewing the code the user is looking at. Point out bugs, risky patterns and readability issues, and suggest concrete fixes with short code snippets.",
+    temperature: 0.3,
+    topK: 3,
+    outputLanguage: "en",
+    answerLength: "detailed",
+    tools: true,
+  },
+  {
+    id: "concise",
+    name: "Concise",
+    systemPrompt:
+      "You are a terse assistant. Give the answer directly, without preamble or follow-up offers.",
+    temperature: 0.2,
+    topK: 3,
+    outputLanguage: "en",
+    answerLength: "brief",
+    tools: true,
+  },
+  {
+    id: "teacher",
+    name: "Teacher",
+    systemPrompt:
+      "You are a patient teacher. Explain concepts step by step in plain language, define jargon the first time it appears, and check understanding with a short question at the end.",
+    temperature: 0.7,
+    outputLanguage: "en",
+    answerLength: "detailed",
+    tools: true,
+  },
+];
+
+export const languageLabel = (code: string) =>
+  OUTPUT_LANGUAGES.find((language) => language.code === code)?.label ?? code;
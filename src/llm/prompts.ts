@@ -0,0 +1,57 @@
+// System prompts shared by every chat surface (main window and floating window)
+
+import {
+  ANSWER_LENGTH_GUIDELINES,
+  AssistantProfile,
+  languageLabel,
+} from "./profiles";
+import { DEFAULT_TOOLS, describeTools } from "./tools";
+
+// How the model receives the screen: as an image, or as OCR text when the
+// provider cannot take images
+export type ScreenInputMode = "image" | "ocr";
+
+export const buildSystemPrompt = (
+  profile: AssistantProfile,
+  hasScreenAccess: boolean,
+  screenInputMode: ScreenInputMode = "image"
+) => {
+  const screenCapabilities =
+    screenInputMode === "image"
+      ? `
+✓ SCREEN ACCESS IS ENABLED - I can automatically see your screen
+✓ I have real-time access to screenshot images 
+✓ When you mention "screen", "see", or ask visual questions, I can see your current display
+✓ I do NOT need users to paste images - I capture them automatically
+✓ I should respond naturally about what I observe on screen when asked
+`
+      : `
+✓ SCREEN ACCESS IS ENABLED - I can see your screen via OCR text extraction
+✓ I have real-time access to screen content as text
+✓ When you mention "screen", "see", or ask visual questions, I can describe what I observe
+✓ I do NOT need users to paste images - I extract text automatically
+✓ I should respond naturally about what I observe on screen when asked
+`;
+
+  return `${profile.systemPrompt.trim()}
+
+IMPORTANT CAPABILITIES:
+${hasScreenAccess ? screenCapabilities : `
+✗ Screen access is disabled - I work in text-only mode
+✗ To enable screen viewing, ask the user to click the screen button
+`}
+
+RESPONSE GUIDELINES:
+- ${ANSWER_LENGTH_GUIDELINES[profile.answerLength]}
+- Always answer in ${languageLabel(profile.outputLanguage)}
+- For general questions (jokes, chat), respond normally without mentioning screens
+- For screen-related questions ("what do you see", "what's on my screen"), describe what I observe
+- Reference conversation history when relevant
+- Never ask users to "paste a screenshot" - I can see automatically when screen access is enabled${
+    profile.tools ? `\n\n${describeTools(DEFAULT_TOOLS)}` : ""
+  }`;
+};
+
+// Appends the fallback transcript used when a session has to be rebuilt
+export const withConversationHistory = (systemPrompt: string, history: string) =>
+  history ? `${systemPrompt}\n\nCONVERSATION HISTORY:\n${history}` : systemPrompt;
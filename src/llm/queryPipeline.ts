@@ -0,0 +1,995 @@
+import type { ConversationSummary } from "../contexts/SharedChatContext";
+import { createFrameBatcher } from "../utils/frameBatcher";
+import { dataUrlToBlob } from "../utils/image";
+import {
+  createMessage,
+  screenshotOf,
+  withAttachment,
+  type Attachment,
+  type Message,
+  type MessageId,
+  type MessageMeta,
+  type MessageStatus,
+  type NoticeAction,
+} from "../utils/messages";
+import { extractTextFromImage } from "../utils/ocr";
+import {
+  DEFAULT_HISTORY_BUDGET,
+  RECENT_TURNS_SHARE,
+  conversationTurns,
+  needsCompaction,
+  selectRecentTurns,
+  summarizeConversation,
+  turnsToPrompts,
+  unsummarizedTurns,
+} from "./compaction";
+import { ExtractionTemplate, extractFromScreen, formatExtraction } from "./extraction";
+import { planFrame, recordFrame, REUSED_FRAME_NOTE } from "./imagePolicy";
+import type { AssistantProfile } from "./profiles";
+import {
+  DEFAULT_TOOLS,
+  MAX_TOOL_STEPS,
+  TOOL_CALL_SCHEMA,
+  ToolCall,
+  ToolEnvironment,
+  ToolResult,
+  mayBeToolCall,
+  parseToolCall,
+  requestToolConfirmation,
+} from "./tools";
+import { buildSystemPrompt, ScreenInputMode, withConversationHistory } from "./prompts";
+import { estimateTokens } from "./tokens";
+import type {
+  AISession,
+  AISessionConfig,
+  JSONSchema,
+  LLMProvider,
+  SessionUsage,
+} from "./types";
+
+// Everything a chat surface has to hand the pipeline. Both the main window
+// and the floating window call runQuery with their own capture function
+// and message callbacks, so the two behave identically.
+export interface QueryPipelineContext {
+  provider: LLMProvider;
+  profile: AssistantProfile;
+  hasScreenAccess: boolean;
+  captureScreen: () => Promise<string | null>;
+  getOrCreateSession: (config: AISessionConfig) => Promise<AISession | null>;
+  recreateSession: (config: AISessionConfig) => Promise<AISession | null>;
+  // Like recreateSession, but the branch checkpoints stay valid
+  replaceSession: (config: AISessionConfig) => Promise<AISession | null>;
+  destroySession: () => void;
+  saveCheckpoint: (messageId: MessageId) => Promise<void>;
+  restoreCheckpoint: (messageId: MessageId) => Promise<AISession | null>;
+  refreshUsage: () => SessionUsage | null;
+  messages: Message[];
+  conversationSummary: ConversationSummary | null;
+  setConversationSummary: (summary: ConversationSummary) => void;
+  addMessage: (message: Message) => void;
+  updateMessage: (id: MessageId, content: string, changes?: Partial<Message>) => void;
+  forkBeforeMessage: (id: MessageId) => void;
+  setIsThinking: (thinking: boolean) => void;
+  setLoadingStage: (stage: string) => void;
+  onScreenshot?: (screenshot: string) => void;
+  speakResponse?: (text: string) => void;
+  stopSpeaking?: () => void;
+  // Aborting stops the query; a partial answer is kept and marked aborted
+  signal?: AbortSignal;
+}
+
+// One user turn to answer: the question, the frame captured with it, and
+// the conversation the model should have seen before it
+interface Turn {
+  query: string;
+  screenshot: string | null;
+  history: Message[];
+  freshSession: boolean; // rebuild the session from history instead of reusing it
+  // The user message the turn answers. The session is checkpointed before
+  // the turn goes in, and a fresh session resumes from that checkpoint
+  // instead of being rebuilt when one exists.
+  checkpointId?: MessageId;
+  screenAsText?: boolean; // hand the model the screen's OCR text, never the image
+  attach: (attachment: Attachment) => void; // keep with the question, e.g. its OCR text
+}
+
+interface PreparedPrompt {
+  session: AISession;
+  prompt: string;
+}
+
+type AnswerWriter = (text: string, changes?: Partial<Message>) => void;
+
+interface AnswerResult {
+  response: string;
+  aborted: boolean;
+  inputTokens: number; // prompts sent across every tool step
+  outputTokens: number;
+}
+
+// Streamed chunks arrive far faster than the screen refreshes; only the
+// latest text per animation frame is written to the message
+const batchWrites = (write: AnswerWriter) => {
+  const batcher = createFrameBatcher<[string, Partial<Message> | undefined]>(
+    ([text, changes]) => write(text, changes),
+    ([, pendingChanges], [text, changes]) => [
+      text,
+      pendingChanges || changes ? { ...pendingChanges, ...changes } : undefined,
+    ]
+  );
+
+  const batched: AnswerWriter = (text, changes) => batcher.push([text, changes]);
+  return { write: batched, flush: batcher.flush };
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unknown error";
+
+const addNotice = (
+  ctx: QueryPipelineContext,
+  type: "system" | "error",
+  content: string,
+  action?: NoticeAction
+) => {
+  ctx.addMessage(createMessage(type, content, { action }));
+};
+
+// Attachments are written back to the question as the turn produces them
+const attachTo = (ctx: QueryPipelineContext, question: Message) => {
+  let attachments = question.attachments;
+  return (attachment: Attachment) => {
+    attachments = withAttachment(attachments, attachment);
+    ctx.updateMessage(question.id, question.content, { attachments });
+  };
+};
+
+// Which profile and provider an answer came from
+const answerMeta = (ctx: QueryPipelineContext): MessageMeta => ({
+  profileId: ctx.profile.id,
+  profileName: ctx.profile.name,
+  providerId: ctx.provider.id,
+  providerLabel: ctx.provider.label,
+});
+
+// Status and metadata for an answer that has finished streaming
+const finishedAnswer = (
+  ctx: QueryPipelineContext,
+  result: AnswerResult,
+  startedAt: number
+): { status: MessageStatus; meta: MessageMeta } => ({
+  status: result.aborted ? "aborted" : "complete",
+  meta: {
+    ...answerMeta(ctx),
+    latencyMs: Date.now() - startedAt,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens,
+  },
+});
+
+// A failure while the model is unavailable needs setup, not a retry
+const failureAction = async (
+  ctx: QueryPipelineContext,
+  retry: NoticeAction
+): Promise<NoticeAction> => {
+  try {
+    return (await ctx.provider.availability()) === "available"
+      ? retry
+      : { type: "open-setup" };
+  } catch {
+    return retry;
+  }
+};
+
+const summaryContext = (summary: ConversationSummary | null) =>
+  summary ? `Summary of earlier conversation: ${summary.text}` : "";
+
+// The running summary only describes a history that contains the last
+// message it folded in; on another branch (or before that point) it is stale
+const summaryForHistory = (
+  summary: ConversationSummary | null,
+  history: Message[]
+) =>
+  summary && history.some((msg) => msg.id === summary.throughMessageId)
+    ? summary
+    : null;
+
+// Session settings for the active profile: its sampling, and a system
+// prompt carrying any summary of the conversation so far
+const profileSessionConfig = (
+  ctx: QueryPipelineContext,
+  mode: ScreenInputMode,
+  summary: string,
+  turns: Message[]
+): AISessionConfig => ({
+  temperature: ctx.profile.temperature,
+  topK: ctx.profile.topK,
+  outputLanguage: ctx.profile.outputLanguage,
+  expectedInputs: mode === "image" ? [{ type: "image" }] : undefined,
+  systemPrompt: withConversationHistory(
+    buildSystemPrompt(ctx.profile, ctx.hasScreenAccess, mode),
+    summary
+  ),
+  initialPrompts: turnsToPrompts(turns),
+});
+
+// Session settings for a conversation: the running summary plus the recent
+// turns to seed a newly created session with
+const buildSessionConfig = (
+  ctx: QueryPipelineContext,
+  history: Message[],
+  mode: ScreenInputMode
+): AISessionConfig => {
+  const summary = summaryForHistory(ctx.conversationSummary, history);
+
+  return profileSessionConfig(
+    ctx,
+    mode,
+    summaryContext(summary),
+    selectRecentTurns(unsummarizedTurns(history, summary), DEFAULT_HISTORY_BUDGET)
+  );
+};
+
+// The session a turn is asked in: the live one, or for a fresh session the
+// checkpoint taken before the same question, falling back to a rebuild
+const openTurnSession = async (
+  turn: Turn,
+  ctx: QueryPipelineContext,
+  config: AISessionConfig
+): Promise<AISession> => {
+  if (turn.freshSession && turn.checkpointId !== undefined) {
+    const restored = await ctx.restoreCheckpoint(turn.checkpointId);
+    if (restored) return restored;
+  }
+
+  const session = turn.freshSession
+    ? await ctx.recreateSession(config)
+    : await ctx.getOrCreateSession(config);
+  if (!session) {
+    throw new Error("Failed to create AI session");
+  }
+
+  if (turn.checkpointId !== undefined) {
+    await ctx.saveCheckpoint(turn.checkpointId);
+  }
+  return session;
+};
+
+const appendFrame = async (session: AISession, screenshot: string, text: string) => {
+  await session.append([
+    {
+      role: "user",
+      content: [
+        { type: "text", value: text },
+        { type: "image", value: dataUrlToBlob(screenshot) },
+      ],
+    },
+  ]);
+};
+
+// Fold the turns that do not fit in the token budget into the running
+// summary. Gives the summary and the recent turns to seed a session with.
+const foldOlderTurns = async (
+  ctx: QueryPipelineContext,
+  history: Message[],
+  budget: number
+) => {
+  const previous = summaryForHistory(ctx.conversationSummary, history);
+  const turns = unsummarizedTurns(history, previous);
+  const recent = selectRecentTurns(turns, budget);
+  const older = turns.slice(0, turns.length - recent.length);
+  const lastOlder = older[older.length - 1];
+  if (!lastOlder) return { summary: previous, recent, folded: false };
+
+  ctx.setLoadingStage("🗜️ Summarizing earlier conversation...");
+  const text = await summarizeConversation(ctx.provider, previous?.text ?? "", older);
+  const summary = { text, throughMessageId: lastOlder.id };
+  ctx.setConversationSummary(summary);
+  return { summary, recent, folded: true };
+};
+
+// Rebuild the session from the summary and the recent turns, leaving its
+// images behind. Turns the rebuilt session has no room for are folded into
+// the summary first, so the model does not lose them. Null if that failed.
+const rebuildWithoutImages = async (
+  turn: Turn,
+  ctx: QueryPipelineContext,
+  session: AISession
+): Promise<AISession | null> => {
+  const quota = ctx.refreshUsage()?.quota || session.inputQuota;
+  const budget = quota ? quota * RECENT_TURNS_SHARE : DEFAULT_HISTORY_BUDGET;
+
+  try {
+    const { summary, recent } = await foldOlderTurns(ctx, turn.history, budget);
+    return await ctx.replaceSession(
+      profileSessionConfig(ctx, "image", summaryContext(summary), recent)
+    );
+  } catch (error) {
+    console.warn("Could not rebuild the session without its images:", error);
+    return null;
+  }
+};
+
+// Multimodal attempt: send the frame as an image to the persistent session,
+// unless the session already holds the same screen
+const prepareImagePrompt = async (
+  turn: Turn,
+  ctx: QueryPipelineContext
+): Promise<PreparedPrompt> => {
+  const config = buildSessionConfig(ctx, turn.history, "image");
+  let session = await openTurnSession(turn, ctx, config);
+
+  if (!turn.screenshot) {
+    return { session, prompt: turn.query };
+  }
+
+  const plan = await planFrame(session, turn.screenshot);
+  if (plan.action === "reuse") {
+    return { session, prompt: `${REUSED_FRAME_NOTE}\n\n${turn.query}` };
+  }
+
+  if (plan.action === "reset") {
+    // Too many images live: start over with this frame only. If the
+    // conversation cannot be carried over, the frame goes in on top.
+    session = (await rebuildWithoutImages(turn, ctx, session)) ?? session;
+  }
+
+  await appendFrame(session, turn.screenshot, "Here is a screenshot for context.");
+  recordFrame(session, plan.frame);
+  return { session, prompt: turn.query };
+};
+
+// Text-only fallback: rebuild the session from the transcript and hand the
+// model the screen as OCR text instead of an image
+const prepareTextPrompt = async (
+  turn: Turn,
+  ctx: QueryPipelineContext
+): Promise<PreparedPrompt> => {
+  const session = await ctx.recreateSession(
+    buildSessionConfig(ctx, turn.history, "ocr")
+  );
+  if (!session) {
+    throw new Error("Failed to create fallback AI session");
+  }
+
+  let screenText = "";
+  if (turn.screenshot) {
+    ctx.setLoadingStage("🔍 Reading text from your screen...");
+    screenText = await extractTextFromImage(turn.screenshot, (progress) =>
+      ctx.setLoadingStage(`🔍 Reading text ${Math.round(progress * 100)}%`)
+    );
+    if (screenText) turn.attach({ kind: "ocr-text", text: screenText });
+  }
+
+  return {
+    session,
+    prompt: screenText
+      ? `Screen content: "${screenText}"\n\nUser question: ${turn.query}`
+      : turn.query,
+  };
+};
+
+// When the session nears its quota, fold older turns into the running
+// summary and rebuild the session from that summary plus the recent turns
+const compactIfNeeded = async (ctx: QueryPipelineContext) => {
+  const usage = ctx.refreshUsage();
+  if (!needsCompaction(usage)) return;
+
+  try {
+    const { summary, recent, folded } = await foldOlderTurns(
+      ctx,
+      ctx.messages,
+      usage!.quota * RECENT_TURNS_SHARE
+    );
+    if (!folded) return; // nothing left to fold away
+
+    await ctx.recreateSession(
+      profileSessionConfig(ctx, "image", summaryContext(summary), recent)
+    );
+  } catch (error) {
+    // Not fatal: the next step creates or rebuilds a session as usual
+    console.warn("Conversation compaction failed:", error);
+  }
+};
+
+// Hand a tool result back to the model. Images go in as images when the
+// session takes them, otherwise as their OCR text.
+const toolResultPrompt = async (
+  session: AISession,
+  toolName: string,
+  result: ToolResult
+) => {
+  const text = `Tool result from ${toolName}: ${result.text}`;
+  if (!result.image) return text;
+
+  try {
+    // Mid-answer the session cannot be rebuilt, so only repeats are skipped
+    const plan = await planFrame(session, result.image);
+    if (plan.action === "reuse") {
+      return `${text}\n\n${REUSED_FRAME_NOTE}`;
+    }
+
+    await appendFrame(session, result.image, text);
+    recordFrame(session, plan.frame);
+    return "Continue answering using the tool result above.";
+  } catch {
+    const screenText = await extractTextFromImage(result.image);
+    return `${text}\n\nScreen content: "${screenText}"`;
+  }
+};
+
+// Stream the model's answer. A reply that opens with a JSON object, bare or
+// fenced, is held back; if it names a tool, the tool runs (once the user
+// allows it, for tools with side effects), its result goes back into the
+// session and the model carries on. Requests with bad arguments are retried
+// with the reply constrained to the tool call schema. Any other reply is the
+// answer.
+const streamInto = async (
+  { session, prompt }: PreparedPrompt,
+  write: AnswerWriter,
+  turn: Turn,
+  ctx: QueryPipelineContext
+): Promise<AnswerResult> => {
+  const tools = ctx.profile.tools ? DEFAULT_TOOLS : [];
+  let toolCalls: ToolCall[] = [];
+  let latestScreenshot = turn.screenshot;
+
+  const show = (text: string, changes?: Partial<Message>) =>
+    write(text, { toolCalls: toolCalls.length ? toolCalls : undefined, ...changes });
+
+  const environment: ToolEnvironment = {
+    hasScreenAccess: ctx.hasScreenAccess,
+    captureScreen: ctx.captureScreen,
+    latestScreenshot: () => latestScreenshot,
+    onScreenshot: (screenshot) => {
+      latestScreenshot = screenshot;
+      ctx.onScreenshot?.(screenshot);
+    },
+  };
+
+  let nextPrompt = prompt;
+  let constraint: JSONSchema | undefined;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (let step = 0; ; step++) {
+    const allowTools = tools.length > 0 && step < MAX_TOOL_STEPS;
+    if (!allowTools) constraint = undefined;
+    let response = "";
+    let heldBack = allowTools;
+    inputTokens += estimateTokens(nextPrompt);
+
+    try {
+      for await (const chunk of session.promptStreaming(nextPrompt, {
+        signal: ctx.signal,
+        responseConstraint: constraint,
+      })) {
+        response += chunk;
+        if (heldBack) heldBack = mayBeToolCall(response);
+        if (!heldBack) show(response);
+      }
+    } catch (error) {
+      if (!ctx.signal?.aborted) throw error;
+    }
+
+    outputTokens += estimateTokens(response);
+
+    if (ctx.signal?.aborted) {
+      const partial = heldBack ? "" : response;
+      show(partial);
+      return { response: partial, aborted: true, inputTokens, outputTokens };
+    }
+    let request: ReturnType<typeof parseToolCall> = null;
+    let requestError: unknown = null;
+    if (heldBack) {
+      try {
+        request = parseToolCall(response, tools);
+      } catch (error) {
+        requestError = error;
+      }
+    }
+    if (!request && !requestError) {
+      // Held back in case it was a tool request, but it is the answer
+      if (heldBack) show(response);
+      return { response, aborted: false, inputTokens, outputTokens };
+    }
+
+    const callId = `${turn.checkpointId ?? Date.now()}-${step}`;
+    const setCall = (call: ToolCall) => {
+      toolCalls = [...toolCalls.filter((c) => c.id !== call.id), call];
+      show("");
+    };
+
+    if (!request) {
+      setCall({
+        id: callId,
+        name: "invalid request",
+        arguments: {},
+        status: "error",
+        result: errorMessage(requestError),
+      });
+      nextPrompt = `Tool error: ${errorMessage(requestError)} Send the tool request again.`;
+      constraint = TOOL_CALL_SCHEMA;
+      continue;
+    }
+
+    const { tool, args } = request;
+    const call: ToolCall = { id: callId, name: tool.name, arguments: args, status: "running" };
+    constraint = undefined;
+
+    if (tool.confirm) {
+      const allowed = requestToolConfirmation(callId, ctx.signal);
+      setCall({ ...call, status: "awaiting" });
+      ctx.setLoadingStage(`✋ Waiting for your OK to run ${tool.name}...`);
+      if (!(await allowed)) {
+        setCall({ ...call, status: "error", result: "Not allowed by the user." });
+        if (ctx.signal?.aborted) {
+          show("");
+          return { response: "", aborted: true, inputTokens, outputTokens };
+        }
+        nextPrompt = `The user did not allow ${tool.name}. Answer without it.`;
+        ctx.setLoadingStage("✨ Generating response...");
+        continue;
+      }
+    }
+
+    setCall(call);
+    ctx.setLoadingStage(`🔧 Running ${tool.name}...`);
+
+    try {
+      const result = await tool.run(args, environment);
+      setCall({ ...call, status: "done", result: result.text });
+      nextPrompt = await toolResultPrompt(session, tool.name, result);
+    } catch (error) {
+      setCall({ ...call, status: "error", result: errorMessage(error) });
+      nextPrompt = `Tool ${tool.name} failed: ${errorMessage(error)}`;
+    }
+
+    if (step + 1 >= MAX_TOOL_STEPS) {
+      nextPrompt += "\n\nAnswer the user now without using any more tools.";
+    }
+    ctx.setLoadingStage("✨ Generating response...");
+  }
+};
+
+// multimodal attempt → OCR fallback → streaming. startAnswer is called once
+// the model is about to answer and returns where the text should go.
+// Resolves to null when the query was stopped before the answer began.
+const answerTurn = async (
+  turn: Turn,
+  ctx: QueryPipelineContext,
+  startAnswer: () => AnswerWriter
+): Promise<AnswerResult | null> => {
+  let prepared: PreparedPrompt;
+  if (turn.screenAsText) {
+    prepared = await prepareTextPrompt(turn, ctx);
+  } else {
+    try {
+      prepared = await prepareImagePrompt(turn, ctx);
+    } catch (multimodalError) {
+      console.log(
+        "Multimodal not available, falling back to text-only:",
+        errorMessage(multimodalError)
+      );
+      prepared = await prepareTextPrompt(turn, ctx);
+    }
+  }
+
+  // Stopped before the model produced anything: nothing to keep
+  if (ctx.signal?.aborted) return null;
+
+  ctx.setLoadingStage("✨ Generating response...");
+  const writes = batchWrites(startAnswer());
+
+  try {
+    return await streamInto(prepared, writes.write, turn, ctx);
+  } catch (streamError) {
+    // The persistent session broke mid-conversation: rebuild it from the
+    // transcript and answer again in the same bubble
+    console.error("AI streaming error, retrying with a fresh session:", streamError);
+    writes.write("");
+    return await streamInto(await prepareTextPrompt(turn, ctx), writes.write, turn, ctx);
+  } finally {
+    writes.flush();
+  }
+};
+
+const ensureProviderReady = async (provider: LLMProvider) => {
+  const availability = await provider.availability();
+  if (availability !== "available") {
+    throw new Error(
+      availability === "unavailable"
+        ? `${provider.label} is not available.`
+        : `AI Status: ${availability}. Please wait for the model to download.`
+    );
+  }
+};
+
+interface QuestionOptions {
+  history: Message[]; // conversation the question follows
+  freshSession: boolean;
+  checkpointId?: MessageId; // defaults to the new user message
+  screenshot?: string | null; // reuse this frame instead of capturing one
+  screenAsText?: boolean;
+}
+
+// Add a user message, then answer it as a new assistant message
+const askQuestion = async (
+  query: string,
+  ctx: QueryPipelineContext,
+  options: QuestionOptions
+) => {
+  // Stop any current TTS when user sends new query
+  ctx.stopSpeaking?.();
+
+  const question = createMessage("user", query);
+  const attach = attachTo(ctx, question);
+  ctx.addMessage(question);
+  ctx.setIsThinking(true);
+
+  let screenshot = options.screenshot ?? null;
+  if (options.screenshot === undefined && ctx.hasScreenAccess) {
+    ctx.setLoadingStage("📸 Capturing your screen...");
+    screenshot = await ctx.captureScreen(); // fresh capture every query
+    if (screenshot) {
+      ctx.onScreenshot?.(screenshot);
+    }
+  }
+  if (screenshot) {
+    // Keep the frame with the question so the turn can be regenerated
+    attach({ kind: "screenshot", dataUrl: screenshot });
+  }
+  ctx.setLoadingStage(
+    ctx.hasScreenAccess || screenshot
+      ? "🧠 AI is analyzing your screen..."
+      : "🧠 AI is thinking..."
+  );
+
+  const finish = () => {
+    ctx.setIsThinking(false);
+    ctx.setLoadingStage("");
+  };
+
+  const startedAt = Date.now();
+  // The answer message once the model starts writing, and its latest text
+  const answer = { id: null as MessageId | null, text: "" };
+
+  try {
+    await ensureProviderReady(ctx.provider);
+    if (!options.freshSession) {
+      await compactIfNeeded(ctx);
+    }
+
+    const result = await answerTurn(
+      {
+        query,
+        screenshot,
+        history: options.history,
+        freshSession: options.freshSession,
+        checkpointId: options.checkpointId ?? question.id,
+        screenAsText: options.screenAsText,
+        attach,
+      },
+      ctx,
+      () => {
+        const message = createMessage("assistant", "", {
+          status: "streaming",
+          meta: answerMeta(ctx),
+        });
+        answer.id = message.id;
+        ctx.addMessage(message);
+        return (text, changes) => {
+          answer.text = text;
+          ctx.updateMessage(message.id, text, changes);
+        };
+      }
+    );
+
+    if (answer.id && result) {
+      ctx.updateMessage(answer.id, result.response, finishedAnswer(ctx, result, startedAt));
+    }
+
+    finish();
+    ctx.refreshUsage();
+
+    if (result && !result.aborted && result.response.trim()) {
+      ctx.speakResponse?.(result.response);
+    }
+  } catch (error) {
+    finish();
+    if (answer.id) {
+      ctx.updateMessage(answer.id, answer.text, { status: "failed" });
+    }
+    if (ctx.signal?.aborted) return;
+
+    console.error("AI Error:", error);
+    addNotice(
+      ctx,
+      "error",
+      `AI Error: ${errorMessage(error)}`,
+      await failureAction(ctx, { type: "retry-question", messageId: question.id })
+    );
+  }
+};
+
+// capture → multimodal attempt → OCR fallback → streaming → TTS
+export const runQuery = async (
+  query: string,
+  ctx: QueryPipelineContext,
+  { screenAsText = false }: { screenAsText?: boolean } = {}
+) => {
+  if (!query.trim()) return;
+
+  await askQuestion(query, ctx, {
+    history: ctx.messages,
+    freshSession: false,
+    screenAsText,
+  });
+};
+
+// Ask an edited version of an earlier question. The new question becomes a
+// sibling of the original, so the answers that followed it stay reachable
+// on their own branch, and the model only sees the history before it.
+export const editQuestion = async (
+  userMessageId: MessageId,
+  query: string,
+  ctx: QueryPipelineContext
+) => {
+  const index = ctx.messages.findIndex((msg) => msg.id === userMessageId);
+  const original = ctx.messages[index];
+  if (!original || original.type !== "user" || !query.trim()) return;
+
+  ctx.forkBeforeMessage(userMessageId);
+
+  // The edit refers to the screen the original question was asked about
+  await askQuestion(query, ctx, {
+    history: ctx.messages.slice(0, index),
+    freshSession: true,
+    checkpointId: userMessageId,
+    screenshot: screenshotOf(original),
+  });
+};
+
+// Moving to another branch changes the conversation the model should have
+// seen, so the session is dropped and rebuilt from that branch on the next query
+export const selectBranch = (
+  messageId: MessageId,
+  branchIndex: number,
+  ctx: Pick<QueryPipelineContext, "destroySession"> & {
+    selectBranch: (id: MessageId, index: number) => void;
+  }
+) => {
+  ctx.selectBranch(messageId, branchIndex);
+  ctx.destroySession();
+};
+
+// All answers an assistant message holds; the first answer predates variants
+export const answerVariants = (message: Message) =>
+  message.variants ?? [message.content];
+
+// Re-run the user turn behind an assistant message against the same frame
+// and keep the new answer as another variant of that message
+export const regenerateAnswer = async (
+  assistantMessageId: MessageId,
+  ctx: QueryPipelineContext
+) => {
+  const index = ctx.messages.findIndex((msg) => msg.id === assistantMessageId);
+  const message = ctx.messages[index];
+  const userIndex = ctx.messages
+    .slice(0, Math.max(index, 0))
+    .map((msg) => msg.type)
+    .lastIndexOf("user");
+  const userMessage = ctx.messages[userIndex];
+  if (!message || !userMessage) return;
+
+  ctx.stopSpeaking?.();
+  ctx.setIsThinking(true);
+  ctx.setLoadingStage("🔄 Regenerating response...");
+
+  const previousVariants = answerVariants(message);
+  const variantIndex = previousVariants.length;
+  const isLatestAnswer = !conversationTurns(ctx.messages.slice(index + 1)).length;
+
+  const finish = () => {
+    ctx.setIsThinking(false);
+    ctx.setLoadingStage("");
+  };
+
+  const startedAt = Date.now();
+  let started = false;
+
+  try {
+    await ensureProviderReady(ctx.provider);
+
+    // The model must only see the conversation up to the question, so the
+    // session restarts from the checkpoint before it or is rebuilt from history
+    const result = await answerTurn(
+      {
+        query: userMessage.content,
+        screenshot: screenshotOf(userMessage),
+        history: ctx.messages.slice(0, userIndex),
+        freshSession: true,
+        checkpointId: userMessage.id,
+        attach: attachTo(ctx, userMessage),
+      },
+      ctx,
+      () => {
+        started = true;
+        const write: AnswerWriter = (text, changes) =>
+          ctx.updateMessage(assistantMessageId, text, {
+            status: "streaming",
+            meta: answerMeta(ctx),
+            ...changes,
+            variants: [...previousVariants, text],
+            activeVariant: variantIndex,
+          });
+        write("");
+        return write;
+      }
+    );
+
+    if (result) {
+      ctx.updateMessage(assistantMessageId, result.response, {
+        ...finishedAnswer(ctx, result, startedAt),
+        variants: [...previousVariants, result.response],
+        activeVariant: variantIndex,
+      });
+    }
+
+    // A session that answered an earlier turn (or was stopped before
+    // answering) no longer matches the conversation; the next query
+    // rebuilds it from the active answers
+    if (!isLatestAnswer || !result) {
+      ctx.destroySession();
+    }
+
+    finish();
+    ctx.refreshUsage();
+
+    if (result && !result.aborted && result.response.trim()) {
+      ctx.speakResponse?.(result.response);
+    }
+  } catch (error) {
+    finish();
+    if (started) {
+      // Drop the failed variant and show the previous answer again
+      ctx.updateMessage(assistantMessageId, message.content, {
+        variants: message.variants,
+        activeVariant: message.activeVariant,
+        status: message.status,
+        meta: message.meta,
+      });
+    }
+    ctx.destroySession();
+    if (ctx.signal?.aborted) return;
+
+    console.error("AI Error:", error);
+    addNotice(
+      ctx,
+      "error",
+      `AI Error: ${errorMessage(error)}`,
+      await failureAction(ctx, { type: "retry-answer", messageId: assistantMessageId })
+    );
+  }
+};
+
+// Run an extraction template against a fresh capture and post the result as
+// a table. The exchange is also appended to the chat session so follow-up
+// questions can refer to the extracted values.
+export const runExtraction = async (
+  template: ExtractionTemplate,
+  ctx: QueryPipelineContext
+) => {
+  ctx.stopSpeaking?.();
+
+  const history = ctx.messages;
+  const request = `🧾 Extract ${template.name} from the screen`;
+  const question = createMessage("user", request);
+  ctx.addMessage(question);
+
+  if (!ctx.hasScreenAccess) {
+    addNotice(
+      ctx,
+      "error",
+      "Screen access is needed to extract data. Enable the screen view first.",
+      { type: "enable-screen" }
+    );
+    return;
+  }
+
+  ctx.setIsThinking(true);
+  ctx.setLoadingStage("📸 Capturing your screen...");
+
+  const finish = () => {
+    ctx.setIsThinking(false);
+    ctx.setLoadingStage("");
+  };
+
+  try {
+    const screenshot = await ctx.captureScreen();
+    if (!screenshot) {
+      throw new Error("Could not capture the screen");
+    }
+    ctx.onScreenshot?.(screenshot);
+    attachTo(ctx, question)({ kind: "screenshot", dataUrl: screenshot });
+
+    await ensureProviderReady(ctx.provider);
+    ctx.setLoadingStage(`🧾 Extracting ${template.name}...`);
+
+    const startedAt = Date.now();
+    const result = await extractFromScreen(ctx.provider, template, screenshot, {
+      signal: ctx.signal,
+      onStage: ctx.setLoadingStage,
+    });
+    const content = formatExtraction(template.name, result.data);
+    ctx.addMessage(
+      createMessage("assistant", content, {
+        extraction: { ...result, templateName: template.name },
+        meta: { ...answerMeta(ctx), latencyMs: Date.now() - startedAt },
+      })
+    );
+
+    try {
+      const session = await ctx.getOrCreateSession(
+        buildSessionConfig(ctx, history, "image")
+      );
+      await session?.append([{ role: "user", content: `${request}\n\n${content}` }]);
+      ctx.refreshUsage();
+    } catch (appendError) {
+      // The next query rebuilds the session from history, extraction included
+      console.warn("Could not add the extraction to the AI session:", appendError);
+      ctx.destroySession();
+    }
+
+    finish();
+  } catch (error) {
+    finish();
+    if (ctx.signal?.aborted) return;
+
+    console.error("Extraction Error:", error);
+    addNotice(
+      ctx,
+      "error",
+      `Extraction failed: ${errorMessage(error)}`,
+      await failureAction(ctx, { type: "retry-extraction", templateId: template.id })
+    );
+  }
+};
+
+const rebuildSession = async (ctx: QueryPipelineContext, reason: string) => {
+  try {
+    await ctx.recreateSession(buildSessionConfig(ctx, ctx.messages, "image"));
+    ctx.refreshUsage();
+  } catch (error) {
+    // The next query creates a session (or falls back to OCR) as usual
+    console.warn(`Could not rebuild the session for ${reason}:`, error);
+    ctx.destroySession();
+  }
+};
+
+// A profile change alters the system prompt and sampling, which a live
+// session cannot take on, so the session is rebuilt from the conversation
+export const applyProfile = (ctx: QueryPipelineContext) =>
+  rebuildSession(ctx, "the new profile");
+
+// A conversation reopened from history starts a new session with its
+// summary and recent turns replayed, so follow-ups pick up where it left off.
+// ctx carries the reopened messages and summary.
+export const resumeConversation = (ctx: QueryPipelineContext) =>
+  rebuildSession(ctx, "the reopened conversation");
+
+// Switching variants changes which answer the conversation holds, so the
+// session is dropped and rebuilt from the active answers on the next query
+export const selectAnswerVariant = (
+  message: Message,
+  variantIndex: number,
+  ctx: Pick<QueryPipelineContext, "updateMessage" | "destroySession">
+) => {
+  const content = answerVariants(message)[variantIndex];
+  if (content === undefined) return;
+
+  ctx.updateMessage(message.id, content, {
+    activeVariant: variantIndex,
+    status: "complete",
+  });
+  ctx.destroySession();
+};
@@ -0,0 +1,178 @@
+import type { AISession, AISessionConfig, LLMProvider, SessionUsage } from "./types";
+import { releaseWarmSession } from "./warmup";
+import { copyImageContext } from "./imagePolicy";
+import { createStore, type Store } from "../utils/store";
+import type { MessageId } from "../utils/messages";
+
+// The model session lives here rather than in a component, so the main
+// window and the floating window talk to the same one: moving between them
+// keeps the model's memory of the conversation and only one session holds
+// a context at a time.
+
+// Snapshots kept for branching; each one holds a full model context
+const MAX_CHECKPOINTS = 3;
+
+export interface SessionService {
+  usage: Store<{ usage: SessionUsage | null }>;
+  getOrCreateSession: (config: AISessionConfig) => Promise<AISession | null>;
+  recreateSession: (config: AISessionConfig) => Promise<AISession | null>;
+  replaceSession: (config: AISessionConfig) => Promise<AISession | null>;
+  destroySession: () => void;
+  hasSession: () => boolean;
+  saveCheckpoint: (messageId: MessageId) => Promise<void>;
+  restoreCheckpoint: (messageId: MessageId) => Promise<AISession | null>;
+  refreshUsage: () => SessionUsage | null;
+}
+
+const createSessionService = (provider: LLMProvider): SessionService => {
+  let session: AISession | null = null;
+  let creating: Promise<AISession | null> | null = null;
+  // Session snapshots taken right before a user message was sent, keyed by its id
+  const checkpoints = new Map<MessageId, AISession>();
+  const usage = createStore<{ usage: SessionUsage | null }>({ usage: null });
+
+  // Read the live token counters off the session and publish them
+  const refreshUsage = (): SessionUsage | null => {
+    const current = session ? { used: session.inputUsage, quota: session.inputQuota } : null;
+    usage.setState({ usage: current });
+    return current;
+  };
+
+  const createSession = (config: AISessionConfig): Promise<AISession | null> => {
+    // Both windows may ask at once; they share the one being created
+    if (creating) return creating;
+
+    creating = provider
+      .create(config)
+      .then((created) => {
+        session = created;
+        // The real session now keeps the model loaded
+        releaseWarmSession();
+        refreshUsage();
+        return created;
+      })
+      .catch((error) => {
+        console.error("Failed to create AI session:", error);
+        session = null;
+        usage.setState({ usage: null });
+        throw error;
+      })
+      .finally(() => {
+        creating = null;
+      });
+    return creating;
+  };
+
+  const getOrCreateSession = async (config: AISessionConfig) =>
+    session ?? (await createSession(config));
+
+  const clearCheckpoints = () => {
+    checkpoints.forEach((checkpoint) => checkpoint.destroy());
+    checkpoints.clear();
+  };
+
+  // Remember the session as it is before the given user message goes in
+  const saveCheckpoint = async (messageId: MessageId) => {
+    const current = session;
+    if (!current || checkpoints.has(messageId)) return;
+
+    try {
+      const checkpoint = await current.clone();
+      copyImageContext(current, checkpoint);
+      checkpoints.set(messageId, checkpoint);
+
+      // Drop the oldest snapshots once over the limit
+      while (checkpoints.size > MAX_CHECKPOINTS) {
+        const [oldestId, oldest] = checkpoints.entries().next().value!;
+        oldest.destroy();
+        checkpoints.delete(oldestId);
+      }
+    } catch (error) {
+      console.warn("Could not checkpoint AI session:", error);
+    }
+  };
+
+  // Continue from the snapshot taken before the given user message, if any.
+  // The snapshot itself stays untouched so it can be branched from again.
+  const restoreCheckpoint = async (messageId: MessageId): Promise<AISession | null> => {
+    const checkpoint = checkpoints.get(messageId);
+    if (!checkpoint) return null;
+
+    try {
+      const restored = await checkpoint.clone();
+      copyImageContext(checkpoint, restored);
+      session?.destroy();
+      session = restored;
+      // The real session now keeps the model loaded
+      releaseWarmSession();
+      refreshUsage();
+      return restored;
+    } catch (error) {
+      console.warn("Could not restore AI session checkpoint:", error);
+      return null;
+    }
+  };
+
+  const closeSession = () => {
+    if (!session) return;
+    try {
+      session.destroy();
+    } catch (error) {
+      console.warn("Error destroying session:", error);
+    }
+    session = null;
+  };
+
+  // Swap in a session built from the config, keeping the snapshots: each
+  // still holds the conversation as it was when it was taken
+  const replaceSession = async (config: AISessionConfig) => {
+    // A create already under way uses the old config: let it finish, then
+    // replace what it made
+    while (creating) await creating.catch(() => null);
+    closeSession();
+    return await createSession(config);
+  };
+
+  const recreateSession = async (config: AISessionConfig) => {
+    // A rebuilt session may not match the history the snapshots were taken from
+    clearCheckpoints();
+    return await replaceSession(config);
+  };
+
+  const destroySession = () => {
+    clearCheckpoints();
+    closeSession();
+    usage.setState({ usage: null });
+  };
+
+  return {
+    usage,
+    getOrCreateSession,
+    recreateSession,
+    replaceSession,
+    destroySession,
+    hasSession: () => session !== null,
+    saveCheckpoint,
+    restoreCheckpoint,
+    refreshUsage,
+  };
+};
+
+const services = new WeakMap<LLMProvider, SessionService>();
+
+// The service for a provider, made the first time either window asks
+export const getSessionService = (provider: LLMProvider) => {
+  let service = services.get(provider);
+  if (!service) {
+    service = createSessionService(provider);
+    services.set(provider, service);
+  }
+  return service;
+};
+
+// A session belongs to the provider that created it, so replacing the
+// provider ends its session
+export const releaseSessionService = (provider: LLMProvider) => {
+  services.get(provider)?.destroySession();
+  services.delete(provider);
+};
@@ -0,0 +1,18 @@
+import type { LLMMessage } from "./types";
+
+// Rough token estimate (~4 characters per token for English text). Used
+// where a provider cannot report real usage and for history budgets.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Vision models typically spend several hundred tokens per image
+const IMAGE_TOKEN_ESTIMATE = 800;
+
+export const estimateMessageTokens = (message: LLMMessage) =>
+  typeof message.content === "string"
+    ? estimateTokens(message.content)
+    : message.content.reduce(
+        (total, part) =>
+          total +
+          (part.type === "text" ? estimateTokens(part.value) : IMAGE_TOKEN_ESTIMATE),
+        0
+      );
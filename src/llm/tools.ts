@@ -0,0 +1,250 @@
+import { cropImage } from "../utils/image";
+import { extractTextFromImage } from "../utils/ocr";
+import type { JSONSchema } from "./types";
+
+// Tools the model can ask the app to run while answering. A request is a
+// reply that consists of a single JSON object matching TOOL_CALL_SCHEMA;
+// the pipeline runs the tool, feeds the result back into the session and
+// lets the model continue.
+
+export interface ToolParameter {
+  type: "string" | "number" | "boolean";
+  description: string;
+  optional?: boolean;
+}
+
+export type ToolArguments = Record<string, string | number | boolean>;
+
+export interface ToolResult {
+  text: string;
+  image?: string; // data URL handed to the model alongside the text
+}
+
+// What a tool may use from the chat surface it runs in
+export interface ToolEnvironment {
+  hasScreenAccess: boolean;
+  captureScreen: () => Promise<string | null>;
+  latestScreenshot: () => string | null;
+  onScreenshot: (screenshot: string) => void;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  // Changes something outside the chat, so it waits for the user to allow
+  // it: a request can come from text on the screen rather than the user
+  confirm?: boolean;
+  run: (args: ToolArguments, env: ToolEnvironment) => Promise<ToolResult>;
+}
+
+// One tool request as shown in the chat
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: ToolArguments;
+  status: "awaiting" | "running" | "done" | "error"; // awaiting the user's go-ahead
+  result?: string;
+}
+
+// Upper bound on tool requests per answer, so a confused model cannot loop
+export const MAX_TOOL_STEPS = 4;
+
+// Calls waiting for the user to allow or decline them, by call id. Kept
+// outside React so either window can answer a request the other started.
+const confirmations = new Map<string, (allowed: boolean) => void>();
+
+// Resolves once the user answers; stopping the query counts as declining
+export const requestToolConfirmation = (callId: string, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) return resolve(false);
+
+    const settle = (allowed: boolean) => {
+      confirmations.delete(callId);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(allowed);
+    };
+    const onAbort = () => settle(false);
+    confirmations.set(callId, settle);
+    signal?.addEventListener("abort", onAbort);
+  });
+
+export const isAwaitingConfirmation = (callId: string) => confirmations.has(callId);
+
+export const answerToolConfirmation = (callId: string, allowed: boolean) =>
+  confirmations.get(callId)?.(allowed);
+
+export const TOOL_CALL_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    tool: { type: "string" },
+    arguments: { type: "object" },
+  },
+  required: ["tool", "arguments"],
+};
+
+const requireScreen = (env: ToolEnvironment) => {
+  if (!env.hasScreenAccess) {
+    throw new Error("Screen access is disabled. Ask the user to enable the screen view.");
+  }
+};
+
+const captureScreenTool: ToolDefinition = {
+  name: "capture_screen",
+  description: "Take a new screenshot, e.g. after the user says the screen changed.",
+  parameters: {},
+  run: async (_args, env) => {
+    requireScreen(env);
+    const screenshot = await env.captureScreen();
+    if (!screenshot) throw new Error("The screen could not be captured.");
+    env.onScreenshot(screenshot);
+    return { text: "Here is the current screen.", image: screenshot };
+  },
+};
+
+const ocrRegionTool: ToolDefinition = {
+  name: "ocr_region",
+  description:
+    "Read the text in part of the latest screenshot. Coordinates are fractions of the screen from 0 to 1, measured from the top-left corner.",
+  parameters: {
+    x: { type: "number", description: "left edge, 0-1" },
+    y: { type: "number", description: "top edge, 0-1" },
+    width: { type: "number", description: "region width, 0-1" },
+    height: { type: "number", description: "region height, 0-1" },
+  },
+  run: async (args, env) => {
+    requireScreen(env);
+    const screenshot = env.latestScreenshot() ?? (await env.captureScreen());
+    if (!screenshot) throw new Error("There is no screenshot to read from.");
+
+    const region = await cropImage(screenshot, {
+      x: Number(args.x),
+      y: Number(args.y),
+      width: Number(args.width),
+      height: Number(args.height),
+    });
+    const text = await extractTextFromImage(region);
+    return { text: text ? `Text in the region:\n${text}` : "No text found in the region." };
+  },
+};
+
+const setReminderTool: ToolDefinition = {
+  name: "set_reminder",
+  description: "Show the user a desktop notification after a delay.",
+  parameters: {
+    message: { type: "string", description: "what to remind the user of" },
+    minutes: { type: "number", description: "delay in minutes" },
+  },
+  confirm: true,
+  run: async (args) => {
+    if (typeof Notification === "undefined") {
+      throw new Error("Notifications are not supported in this browser.");
+    }
+    const permission =
+      Notification.permission === "default"
+        ? await Notification.requestPermission()
+        : Notification.permission;
+    if (permission !== "granted") {
+      throw new Error("Notifications are blocked, so the reminder was not set.");
+    }
+
+    const minutes = Math.max(0, Number(args.minutes) || 0);
+    const message = String(args.message);
+    setTimeout(() => {
+      new Notification("ScreenGenie reminder", { body: message });
+    }, minutes * 60_000);
+    return { text: `Reminder set for ${minutes} minute(s) from now.` };
+  },
+};
+
+const copyToClipboardTool: ToolDefinition = {
+  name: "copy_to_clipboard",
+  description: "Copy text to the user's clipboard.",
+  parameters: {
+    text: { type: "string", description: "the exact text to copy" },
+  },
+  confirm: true,
+  run: async (args) => {
+    await navigator.clipboard.writeText(String(args.text));
+    return { text: "Copied to the clipboard." };
+  },
+};
+
+export const DEFAULT_TOOLS: ToolDefinition[] = [
+  captureScreenTool,
+  ocrRegionTool,
+  setReminderTool,
+  copyToClipboardTool,
+];
+
+// Tool section of the system prompt
+export const describeTools = (tools: ToolDefinition[]) => {
+  const lines = tools.map((tool) => {
+    const params = Object.entries(tool.parameters)
+      .map(
+        ([name, param]) =>
+          `${name}: ${param.type}${param.optional ? " (optional)" : ""} - ${param.description}`
+      )
+      .join("; ");
+    return `- ${tool.name}: ${tool.description}${params ? ` Arguments: ${params}.` : ""}`;
+  });
+
+  return `TOOLS:
+${lines.join("\n")}
+To use a tool, reply with only a JSON object and nothing else, e.g. {"tool": "capture_screen", "arguments": {}}
+You will get the tool result in the next message. Only use a tool when it is needed to answer.`;
+};
+
+// Small models often wrap the JSON in a ```json fence
+const stripFence = (reply: string) =>
+  reply.trim().replace(/^```(?:json)?\s*|\s*```$/gi, "");
+
+// The start of a fence, before anything after it has streamed in
+const FENCE_OPENING = /^`{1,3}(?:j(?:s(?:on?)?)?)?$/i;
+
+// Replies that open with a JSON object, bare or fenced, may be tool requests
+export const looksLikeToolCall = (reply: string) => stripFence(reply).startsWith("{");
+
+// Whether a reply, as far as it has streamed, may still turn out to be a
+// tool request. Such replies are held back until they can be parsed.
+export const mayBeToolCall = (reply: string) => {
+  const start = reply.trim();
+  return !start || FENCE_OPENING.test(start) || looksLikeToolCall(start);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// A reply is a tool request only when it is a JSON object naming one of the
+// tools; anything else, other JSON included, is an answer and gives null.
+// Throws when a request's arguments do not fit the tool.
+export const parseToolCall = (
+  reply: string,
+  tools: ToolDefinition[]
+): { tool: ToolDefinition; args: ToolArguments } | null => {
+  let request: unknown;
+  try {
+    request = JSON.parse(stripFence(reply));
+  } catch {
+    return null;
+  }
+  if (!isObject(request)) return null;
+
+  const tool = tools.find((t) => t.name === request.tool);
+  if (!tool) return null;
+
+  const args = request.arguments ?? {};
+  if (!isObject(args)) {
+    throw new Error(`The arguments for ${tool.name} must be a JSON object.`);
+  }
+  for (const [name, param] of Object.entries(tool.parameters)) {
+    const value = args[name];
+    if (value === undefined) {
+      if (!param.optional) throw new Error(`Missing argument "${name}" for ${tool.name}.`);
+    } else if (typeof value !== param.type) {
+      throw new Error(`Argument "${name}" for ${tool.name} must be a ${param.type}.`);
+    }
+  }
+
+  return { tool, args: args as ToolArguments };
+};
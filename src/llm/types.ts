@@ -0,0 +1,66 @@
+// Provider-agnostic contracts for the language model layer.
+// Every backend (Chrome Prompt API, OpenAI-compatible HTTP servers, ...)
+// implements LLMProvider so the rest of the app never touches a concrete API.
+
+export type ProviderId = "chrome" | "openai";
+
+// Mirrors the states reported by Chrome's LanguageModel.availability()
+export type LLMAvailability =
+  | "unavailable"
+  | "downloadable"
+  | "downloading"
+  | "available";
+
+export type LLMMessageContent =
+  | { type: "text"; value: string }
+  | { type: "image"; value: Blob };
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LLMMessageContent[];
+}
+
+export interface AISessionConfig {
+  temperature?: number;
+  topK?: number;
+  expectedInputs?: { type: string }[];
+  outputLanguage?: string;
+  systemPrompt?: string;
+  // Turns to seed the session with, e.g. when rebuilding it after compaction
+  initialPrompts?: LLMMessage[];
+}
+
+// JSON Schema the model's reply has to conform to
+export type JSONSchema = Record<string, unknown>;
+
+export interface PromptOptions {
+  signal?: AbortSignal;
+  responseConstraint?: JSONSchema;
+}
+
+export interface AISession {
+  append: (messages: LLMMessage[]) => Promise<void>;
+  // Aborting through options.signal stops the stream but keeps the session usable
+  promptStreaming: (prompt: string, options?: PromptOptions) => AsyncIterable<string>;
+  // Independent copy of the session in its current state, used to branch
+  // the conversation without replaying the shared history
+  clone: () => Promise<AISession>;
+  destroy: () => void;
+  // Tokens currently held in the session context, and how many it can hold
+  readonly inputUsage: number;
+  readonly inputQuota: number;
+}
+
+export interface SessionUsage {
+  used: number;
+  quota: number;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  availability: () => Promise<LLMAvailability>;
+  create: (config: AISessionConfig) => Promise<AISession>;
+  // Fetch the model for on-device providers; progress goes from 0 to 1
+  download?: (onProgress: (progress: number) => void) => Promise<void>;
+}
@@ -0,0 +1,27 @@
+import type { AISession, LLMProvider } from "./types";
+
+// Creating the first session loads the model, which can take seconds. The
+// home page warms one up ahead of time and keeps it open until the chat
+// creates its own session, so the model stays resident in between.
+
+let warm: { provider: LLMProvider; session: Promise<AISession | null> } | null = null;
+
+export const warmUpProvider = (provider: LLMProvider) => {
+  if (warm?.provider === provider) return;
+  releaseWarmSession();
+
+  warm = {
+    provider,
+    session: provider.create({}).catch((error) => {
+      console.warn(`Could not warm up ${provider.label}:`, error);
+      return null;
+    }),
+  };
+};
+
+export const releaseWarmSession = () => {
+  if (!warm) return;
+  const { session } = warm;
+  warm = null;
+  session.then((s) => s?.destroy());
+};
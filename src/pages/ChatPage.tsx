@@ -2,17 +2,51 @@ import { useState, useEffect, useRef } from "react";
 import { marked } from "marked";
 import { useNavigate } from "react-router-dom";
 import { useScreenCapture } from "../hooks/useScreenCapture";
-import { useChromeAI } from "../hooks/useChromeAI";
+import { useAIAvailability } from "../hooks/useAIAvailability";
 import { useReactPIP } from "../hooks/useReactPIP";
 import { useWindowFocus } from "../hooks/useWindowFocus";
 import { useAISession } from "../hooks/useAISession";
+import { useQueryQueue } from "../hooks/useQueryQueue";
 import { PIPApp } from "../components/PIPApp";
 import { ChatInterface } from "../components/ChatInterface";
+import { SettingsPanel } from "../components/SettingsPanel";
+import { ContextUsageMeter } from "../components/ContextUsageMeter";
+import { ProfileSwitcher } from "../components/ProfileSwitcher";
+import { ConversationSidebar } from "../components/ConversationSidebar";
+import { ExportMenu } from "../components/ExportMenu";
+import { SearchPanel } from "../components/SearchPanel";
 import { enableScreenProtection } from "../utils/screenProtection";
-import { useSharedChatContext, SharedChatProvider } from "../contexts/SharedChatContext";
+import {
+  QueryPipelineContext,
+  applyProfile,
+  editQuestion,
+  regenerateAnswer,
+  resumeConversation,
+  runExtraction,
+  runQuery,
+  selectAnswerVariant,
+  selectBranch,
+} from "../llm/queryPipeline";
+import {
+  useSharedChatContext,
+  SharedChatProvider,
+  OpenedConversation,
+} from "../contexts/SharedChatContext";
 import { useScreenContext, ScreenProvider } from "../contexts/ScreenContext";
 import { useAppContext, AppProvider } from "../contexts/AppContext";
 import { useTTSContext } from "../contexts/TTSContext";
+import { useSettingsContext } from "../contexts/SettingsContext";
+import type { AssistantProfile } from "../llm/profiles";
+import type { SlashCommand } from "../utils/slashCommands";
+import type { Message, MessageId, NoticeAction } from "../utils/messages";
+import type { SearchDocument } from "../utils/search";
+import { activePath } from "../utils/conversationTree";
+import type { ExtractionTemplate } from "../llm/extraction";
+import {
+  exportConversation,
+  parseConversationExport,
+  type ExportFormat,
+} from "../utils/conversationExport";
 
 // Configure marked for better rendering
 marked.setOptions({
@@ -25,20 +59,34 @@ marked.setOptions({
 export const ChatPage = () => {
   const navigate = useNavigate();
   const {
+    store: chatStore,
     messages,
     inputText,
     isThinking,
-    loadingStage,
     setInputText,
     setIsThinking,
     setLoadingStage,
     addMessage,
+    addNotice,
     updateMessage,
+    forkBeforeMessage,
+    selectBranch: selectActiveBranch,
+    showMessage,
+    getBranchInfo,
     clearConversation,
-    buildCleanConversationContext,
+    conversationSummary,
+    setConversationSummary,
+    conversationId,
+    conversations,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+    snapshotConversation,
+    importConversation,
   } = useSharedChatContext();
 
   const {
+    store: screenStore,
     hasScreenAccess,
     currentScreenshot,
     setHasScreenAccess,
@@ -52,17 +100,49 @@ export const ChatPage = () => {
     setAutoFloatEnabled,
   } = useAppContext();
 
-  const { speakAIResponse, stop: stopTTS } = useTTSContext();
+  const {
+    speak,
+    speakAIResponse,
+    speakCode,
+    isSupported: isTTSSupported,
+    stop: stopTTS,
+  } = useTTSContext();
+  const {
+    store: settingsStore,
+    provider,
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    extractionTemplates,
+  } = useSettingsContext();
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<string | null>(null); // null while closed
+  const [focusMessageId, setFocusMessageId] = useState<MessageId | null>(null);
+  // The profile the current AI session was set up with
+  const sessionProfileRef = useRef(activeProfile);
   const protectionCleanup = useRef<(() => void) | null>(null);
 
   // Custom hooks
   const { requestScreenAccess, silentCapture, hasAccess, getStream, stopCapture } =
-    useScreenCapture({ excludeOwnWindow: true });
-  const { isReady: aiReady, status: aiStatus } = useChromeAI();
+    useScreenCapture({
+      excludeOwnWindow: true,
+      onStreamEnded: () => handleScreenShareEnded(),
+    });
+  const { isReady: aiReady, status: aiStatus } = useAIAvailability(provider);
   const { isOpen: pipIsOpen, openPIPWindow, closePIPWindow } = useReactPIP();
   
   // AI session management
-  const { getOrCreateSession, recreateSession, destroySession } = useAISession();
+  const {
+    getOrCreateSession,
+    recreateSession,
+    replaceSession,
+    destroySession,
+    saveCheckpoint,
+    restoreCheckpoint,
+    usage,
+    refreshUsage,
+  } = useAISession(provider);
   
   // Auto-floating window detection (bi-directional)
   useWindowFocus({
@@ -82,13 +162,20 @@ export const ChatPage = () => {
     debounceMs: 1500,
   });
 
+  // Arriving without a usable model (e.g. from a bookmark) goes back to
+  // setup. Once the chat has worked, losing the model, say after a settings
+  // change, is shown in place so the conversation stays open.
+  const wasReadyRef = useRef(false);
   useEffect(() => {
-    // Check if AI is ready, if not redirect to home
-    if (!aiReady && aiStatus === "not-available") {
+    if (aiReady) {
+      wasReadyRef.current = true;
+    } else if (aiStatus === "not-available" && !wasReadyRef.current && !showSettings) {
       navigate("/");
-      return;
     }
+  }, [aiReady, aiStatus, showSettings, navigate]);
+  const providerUnavailable = !aiReady && (aiStatus === "not-available" || aiStatus === "error");
 
+  useEffect(() => {
     // Enable lightweight screen protection
     protectionCleanup.current = enableScreenProtection();
 
@@ -99,219 +186,202 @@ export const ChatPage = () => {
       // Clean up AI session
       destroySession();
     };
-  }, [aiReady, aiStatus, navigate]);
+  }, []);
 
-  const handleUserQuery = async (query: string) => {
-    if (!query.trim()) return;
+  // Everything the shared query pipeline needs from this window
+  const createPipelineContext = (signal?: AbortSignal): QueryPipelineContext => ({
+    provider,
+    profile: activeProfile,
+    // Only capture screen if user has enabled screen access
+    hasScreenAccess: hasScreenAccess && hasAccess(),
+    captureScreen: silentCapture,
+    getOrCreateSession,
+    recreateSession,
+    replaceSession,
+    destroySession,
+    saveCheckpoint,
+    restoreCheckpoint,
+    refreshUsage,
+    messages,
+    conversationSummary,
+    setConversationSummary,
+    addMessage,
+    updateMessage,
+    forkBeforeMessage,
+    setIsThinking,
+    setLoadingStage,
+    onScreenshot: setCurrentScreenshot,
+    speakResponse: speakAIResponse,
+    stopSpeaking: stopTTS,
+    signal,
+  });
 
-    // Stop any current TTS when user sends new query
-    stopTTS();
+  const runPipeline = (task: (ctx: QueryPipelineContext) => Promise<void>) =>
+    queryQueue.track((signal) => task(createPipelineContext(signal)));
 
-    addMessage("user", query);
+  const handleUserQuery = async (query: string) => {
     setInputText("");
-    setIsThinking(true);
+    await runPipeline((ctx) => runQuery(query, ctx));
+  };
 
-    // Only capture screen if user has enabled screen access
-    let screenshot: string | null = null;
-    if (hasScreenAccess && hasAccess()) {
-      setLoadingStage("📸 Capturing your screen...");
-      screenshot = await silentCapture();
-      if (screenshot) {
-        setCurrentScreenshot(screenshot);
-      }
-      setLoadingStage("🧠 AI is analyzing your screen...");
-    } else {
-      setLoadingStage("🧠 AI is thinking...");
-    }
+  // The one runner for questions queued in either window
+  const queryQueue = useQueryQueue(chatStore, (query) =>
+    runPipeline((ctx) => runQuery(query, ctx))
+  );
 
-    try {
-      if (!aiReady) {
-        setIsThinking(false);
-        setLoadingStage("");
-        addMessage("error", "AI not ready. Please wait for model to load.");
-        return;
-      }
+  const handleRegenerate = (messageId: MessageId) =>
+    runPipeline((ctx) => regenerateAnswer(messageId, ctx));
 
-      // Create system prompt that clearly states capabilities
-      const systemPrompt = `You are a helpful AI assistant. 
-
-IMPORTANT CAPABILITIES:
-${hasScreenAccess ? `
-✓ SCREEN ACCESS IS ENABLED - I can automatically see your screen
-✓ I have real-time access to screenshot images 
-✓ When you mention "screen", "see", or ask visual questions, I can see your current display
-✓ I do NOT need users to paste images - I capture them automatically
-✓ I should respond naturally about what I observe on screen when asked
-` : `
-✗ Screen access is disabled - I work in text-only mode
-✗ To enable screen viewing, ask the user to click "📸 Enable Screen" button
-`}
-
-RESPONSE GUIDELINES:
-- Be conversational and brief unless detail is requested
-- For general questions (jokes, chat), respond normally without mentioning screens
-- For screen-related questions ("what do you see", "what's on my screen"), describe what I observe
-- Reference conversation history when relevant
-- Never ask users to "paste a screenshot" - I can see automatically when screen access is enabled`;
-
-      // Try multimodal approach first if we have a screenshot
-      let session = null;
-      if (screenshot && hasScreenAccess) {
-        try {
-          // Get or create persistent session with multimodal support
-          session = await getOrCreateSession({
-            expectedInputs: [{ type: "image" }],
-            systemPrompt,
-          });
-
-          if (session) {
-            // Convert base64 screenshot to blob for the API
-            const base64Data = screenshot.split(",")[1];
-            if (base64Data) {
-              const byteArray = Uint8Array.from(atob(base64Data), (c) =>
-                c.charCodeAt(0)
-              );
-              const blob = new Blob([byteArray], { type: "image/png" });
-
-              // Append the image to the session
-              await session.append([
-                {
-                  role: "user",
-                  content: [
-                    {
-                      type: "text",
-                      value: "Here is a screenshot for context.",
-                    },
-                    {
-                      type: "image",
-                      value: blob,
-                    },
-                  ],
-                },
-              ]);
-            }
-          }
-        } catch (multimodalError) {
-          console.log("Multimodal not available, falling back to text-only:", multimodalError);
-          session = null;
-        }
-      }
+  const handleSelectVariant = (message: Message, variantIndex: number) =>
+    selectAnswerVariant(message, variantIndex, { updateMessage, destroySession });
 
-      // If multimodal failed or no screenshot, use text-only session
-      if (!session) {
-        // Get or create persistent session for text-only
-        session = await getOrCreateSession({
-          systemPrompt,
-        });
-
-        if (!session) {
-          // If session creation fails, try with fallback context
-          const cleanContext = buildCleanConversationContext();
-          const fallbackSystemPrompt = cleanContext 
-            ? `${systemPrompt}\n\nCONVERSATION HISTORY:\n${cleanContext}`
-            : systemPrompt;
-
-          session = await recreateSession({
-            systemPrompt: fallbackSystemPrompt,
-          });
-
-          if (!session) {
-            setIsThinking(false);
-            setLoadingStage("");
-            addMessage("error", "Failed to create AI session");
-            return;
-          }
-        }
-      }
+  const handleExtract = (template: ExtractionTemplate) =>
+    runPipeline((ctx) => runExtraction(template, ctx));
 
-      try {
-        // Use streaming for real-time responses
-        setLoadingStage("✨ Generating response...");
-        
-        const stream = session.promptStreaming(query);
+  const handleEditMessage = (messageId: MessageId, text: string) =>
+    runPipeline((ctx) => editQuestion(messageId, text, ctx));
 
-        // Add initial message
-        const messageId = Date.now();
-        addMessage("assistant", "", messageId);
+  const handleSelectBranch = (messageId: MessageId, branchIndex: number) =>
+    selectBranch(messageId, branchIndex, {
+      selectBranch: selectActiveBranch,
+      destroySession,
+    });
 
-        let response = "";
-        for await (const chunk of stream) {
-          response += chunk;
-          updateMessage(messageId, response);
-        }
+  const applyProfileToSession = (profile: AssistantProfile) => {
+    sessionProfileRef.current = profile;
+    applyProfile({ ...createPipelineContext(), profile });
+  };
 
-        // Only disable thinking state after streaming is complete
-        setIsThinking(false);
-        setLoadingStage("");
+  const handleSwitchProfile = (profile: AssistantProfile) => {
+    setActiveProfileId(profile.id);
+    applyProfileToSession(profile);
+  };
 
-        // Trigger TTS for the complete AI response
-        if (response.trim()) {
-          speakAIResponse(response);
-        }
+  // Edits to the profile in use reach the session once the panel closes
+  const handleCloseSettings = () => {
+    setShowSettings(false);
+    if (activeProfile !== sessionProfileRef.current) {
+      applyProfileToSession(activeProfile);
+    }
+  };
 
-        console.log("AI response completed successfully!");
-      } catch (error) {
-        console.error("AI streaming error:", error);
-        setIsThinking(false);
-        setLoadingStage("");
-        
-        // If session fails, try recreating with fallback context
-        try {
-          const cleanContext = buildCleanConversationContext();
-          const fallbackSystemPrompt = cleanContext 
-            ? `${systemPrompt}\n\nCONVERSATION HISTORY:\n${cleanContext}`
-            : systemPrompt;
-
-          const fallbackSession = await recreateSession({
-            systemPrompt: fallbackSystemPrompt,
-          });
-
-          if (fallbackSession) {
-            const stream = fallbackSession.promptStreaming(query);
-            const messageId = Date.now();
-            addMessage("assistant", "", messageId);
-
-            let response = "";
-            for await (const chunk of stream) {
-              response += chunk;
-              updateMessage(messageId, response);
-            }
-            setIsThinking(false);
-            setLoadingStage("");
-            
-            // Trigger TTS for the fallback response
-            if (response.trim()) {
-              speakAIResponse(response);
-            }
-          } else {
-            throw error;
-          }
-        } catch (fallbackError) {
-          addMessage(
-            "error",
-            `AI Error: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`
-          );
-        }
+  const handleNoticeAction = (action: NoticeAction) => {
+    switch (action.type) {
+      case "retry-question": {
+        // Asked again as a new version of the failed question
+        const question = messages.find((msg) => msg.id === action.messageId);
+        if (question) handleEditMessage(question.id, question.content);
+        break;
       }
-    } catch (error) {
-      console.error("AI Error:", error);
-      addMessage(
-        "error",
-        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
-      setIsThinking(false);
-      setLoadingStage("");
+      case "retry-answer":
+        handleRegenerate(action.messageId);
+        break;
+      case "retry-extraction": {
+        const template = extractionTemplates.find((t) => t.id === action.templateId);
+        if (template) handleExtract(template);
+        break;
+      }
+      case "enable-screen":
+        if (!hasScreenAccess) handleScreenToggle();
+        break;
+      case "open-setup":
+        navigate("/");
+        break;
     }
   };
 
+  // Ends everything tied to the conversation on screen before another replaces it
+  const leaveConversation = () => {
+    queryQueue.clear();
+    queryQueue.stop();
+    destroySession();
+    setCurrentScreenshot(null);
+  };
+
+  const resumeSession = (opened: OpenedConversation) =>
+    resumeConversation({
+      ...createPipelineContext(),
+      messages: opened.messages,
+      conversationSummary: opened.summary,
+    });
 
   const handleClearConversation = () => {
-    // Destroy current session when clearing conversation
-    destroySession();
+    leaveConversation();
     clearConversation();
-    setCurrentScreenshot(null);
+  };
+
+  const handleNewConversation = () => {
+    handleClearConversation();
+    setShowHistory(false);
+  };
+
+  const handleOpenConversation = async (id: string) => {
+    setShowHistory(false);
+    if (id === conversationId) return;
+
+    leaveConversation();
+    try {
+      const opened = await openConversation(id);
+      if (!opened) {
+        addNotice("error", "❌ That conversation could not be found. It may have been deleted in another tab.");
+        return;
+      }
+      await resumeSession(opened);
+    } catch (error) {
+      console.error("Failed to open conversation:", error);
+      addNotice("error", "❌ Could not open that conversation from browser storage.");
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportConversation(snapshotConversation(), format);
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+      addNotice("error", "❌ Could not export the conversation.");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    let snapshot;
+    try {
+      snapshot = parseConversationExport(await file.text());
+    } catch (error) {
+      addNotice("error", `❌ Could not import ${file.name}: ${(error as Error).message}`);
+      return;
+    }
+
+    leaveConversation();
+    await resumeSession(importConversation(snapshot));
+  };
+
+  // Opens the result's conversation if needed, then scrolls to the message
+  const handleSearchSelect = async (document: SearchDocument) => {
+    setSearchQuery(null);
+    if (document.conversationId !== conversationId) {
+      await handleOpenConversation(document.conversationId);
+    }
+    // A hit on another branch switches to it; the session followed the old one
+    const { tree } = chatStore.getState();
+    const onScreen = activePath(tree).some((msg) => msg.id === document.messageId);
+    if (tree.nodes[document.messageId] && !onScreen) {
+      showMessage(document.messageId);
+      destroySession();
+    }
+    setFocusMessageId(document.messageId);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    renameConversation(id, title).catch((error) =>
+      console.error("Failed to rename conversation:", error)
+    );
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === conversationId) leaveConversation();
+    deleteConversation(id).catch((error) =>
+      console.error("Failed to delete conversation:", error)
+    );
   };
 
   const handleScreenToggle = async () => {
@@ -319,10 +389,7 @@ RESPONSE GUIDELINES:
       // Stop screen capture and update state
       stopCapture();
       setHasScreenAccess(false);
-      addMessage(
-        "system",
-        "📸 Screen view disabled. AI will work in text-only mode."
-      );
+      addNotice("system", "📸 Screen view disabled. AI will work in text-only mode.");
     } else {
       const success = await requestScreenAccess();
       setHasScreenAccess(success);
@@ -333,20 +400,28 @@ RESPONSE GUIDELINES:
         );
         
         if (!hasExistingScreenMessage) {
-          addMessage(
-            "system",
-            "📸 Screen view enabled! AI can now see your screen."
-          );
+          addNotice("system", "📸 Screen view enabled! AI can now see your screen.");
         }
       } else {
-        addMessage(
+        addNotice(
           "error",
-          "Screen access denied. AI will work without screen context."
+          "Screen access denied. AI will work without screen context.",
+          { type: "enable-screen" }
         );
       }
     }
   };
 
+  const handleScreenShareEnded = () => {
+    stopCapture();
+    setHasScreenAccess(false);
+    addNotice(
+      "system",
+      "📸 Screen sharing ended. AI will work in text-only mode.",
+      { type: "enable-screen" }
+    );
+  };
+
   const toggleSystemPIP = async () => {
     if (pipIsOpen) {
       closePIPWindow();
@@ -358,18 +433,22 @@ RESPONSE GUIDELINES:
             closePIPWindow();
             setIsFloating(false);
           }}
-          sharedScreenStream={getStream()}
-          hasMainScreenAccess={hasScreenAccess}
-          sharedMessages={messages}
-          sharedIsThinking={isThinking}
-          sharedLoadingStage={loadingStage}
+          settingsStore={settingsStore}
+          chatStore={chatStore}
+          screenStore={screenStore}
+          getScreenStream={getStream}
           onAddMessage={addMessage}
           onUpdateMessage={updateMessage}
+          onForkBeforeMessage={forkBeforeMessage}
+          onSelectBranch={selectActiveBranch}
           onClearConversation={clearConversation}
+          onSetInputText={setInputText}
           onSetIsThinking={setIsThinking}
           onSetLoadingStage={setLoadingStage}
-          onScreenToggle={handleScreenToggle}
-          buildCleanConversationContext={buildCleanConversationContext}
+          onSetConversationSummary={setConversationSummary}
+          onSpeakResponse={speakAIResponse}
+          onStopSpeaking={stopTTS}
+          onSpeakCode={isTTSSupported ? speakCode : undefined}
         />
       );
 
@@ -383,14 +462,75 @@ RESPONSE GUIDELINES:
       if (success) {
         setIsFloating(true);
       } else {
-        addMessage(
+        addNotice(
           "error",
-          "Failed to open floating window. Please allow popups for this site and try again. Look for a popup blocker icon in your browser's address bar."
+          "Failed to open floating window. Please allow popups for this site and try again.",
+          { type: "popup-help" }
         );
       }
     }
   };
 
+  const switchProfileByName = (name: string) => {
+    const available = profiles.map((profile) => profile.name).join(", ");
+    if (!name) {
+      addNotice("system", `Profile: ${activeProfile.name}. Available: ${available}.`);
+      return;
+    }
+
+    const query = name.toLowerCase();
+    const profile =
+      profiles.find((p) => p.name.toLowerCase() === query) ??
+      profiles.find((p) => p.name.toLowerCase().startsWith(query));
+    if (!profile) {
+      addNotice("error", `No profile named "${name}". Available: ${available}.`);
+      return;
+    }
+    if (profile.id !== activeProfile.id) handleSwitchProfile(profile);
+    addNotice("system", `Switched to the ${profile.name} profile.`);
+  };
+
+  const speakLatestAnswer = () => {
+    const answer = [...messages].reverse().find((msg) => msg.type === "assistant");
+    if (answer) speak(answer.content, answer.id);
+  };
+
+  const slashCommands: SlashCommand[] = [
+    { name: "clear", description: "Start a new conversation", run: handleClearConversation },
+    {
+      name: "screen",
+      description: hasScreenAccess ? "Stop sharing the screen" : "Share a tab or window",
+      run: () => handleScreenToggle(),
+    },
+    {
+      name: "ocr",
+      description: "Ask about the screen's text instead of the image",
+      argument: "<question>",
+      needsIdle: true,
+      run: (question) =>
+        runPipeline((ctx) =>
+          runQuery(question || "What text is on my screen?", ctx, { screenAsText: true })
+        ),
+    },
+    {
+      name: "search",
+      description: "Search past conversations",
+      argument: "<words>",
+      run: (words) => setSearchQuery(words),
+    },
+    { name: "float", description: "Open the floating window", run: () => toggleSystemPIP() },
+    ...(isTTSSupported
+      ? [{ name: "speak", description: "Read the latest answer aloud", run: speakLatestAnswer }]
+      : []),
+    {
+      name: "profile",
+      description: "Switch the assistant profile",
+      argument: "<name>",
+      needsIdle: true,
+      run: switchProfileByName,
+    },
+  ];
+
   // Don't render the main app if PIP is open (content moved to popup)
   if (pipIsOpen) {
     return (
@@ -426,6 +566,26 @@ RESPONSE GUIDELINES:
       <header className="bg-white border-b border-gray-200 px-8 py-4 shadow-sm">
         <div className="flex justify-between items-center">
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="w-12 h-12 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
+              type="button"
+              title="Conversation history"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setSearchQuery("")}
+              className="w-12 h-12 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
+              type="button"
+              title="Search conversations"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </button>
             <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600">
               <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
@@ -443,6 +603,15 @@ RESPONSE GUIDELINES:
           </div>
           
           <div className="flex items-center gap-4">
+            <ProfileSwitcher onSwitch={handleSwitchProfile} disabled={isThinking} />
+            <ContextUsageMeter usage={usage} />
+            <ExportMenu
+              onExport={handleExport}
+              onImport={handleImport}
+              canExport={messages.some((msg) => msg.type === "user")}
+              disabled={isThinking}
+            />
+
             <button
               onClick={() => navigate("/")}
               className="w-12 h-12 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
@@ -455,6 +624,18 @@ RESPONSE GUIDELINES:
               </svg>
             </button>
             
+            <button
+              onClick={() => setShowSettings(true)}
+              className="w-12 h-12 bg-gray-100 hover:bg-gray-200 text-gray-600 border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
+              type="button"
+              title={`Settings (${provider.label})`}
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+
             <button
               onClick={handleScreenToggle}
               className={`w-12 h-12 text-white border-none rounded-xl cursor-pointer transition-all flex items-center justify-center ${
@@ -503,7 +684,7 @@ RESPONSE GUIDELINES:
               onClick={handleClearConversation}
               className="w-12 h-12 bg-red-500 hover:bg-red-600 text-white border-none rounded-xl cursor-pointer transition-colors flex items-center justify-center"
               type="button"
-              title="Clear conversation"
+              title="New conversation"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
@@ -514,11 +695,69 @@ RESPONSE GUIDELINES:
         </div>
       </header>
 
+      {providerUnavailable && (
+        <div
+          role="alert"
+          className="px-8 py-2 bg-red-50 border-b border-red-200 text-sm text-red-800 flex items-center gap-3"
+        >
+          <span>
+            ⚠️ {provider.label} is not available. Check that it is running, or pick another
+            AI provider.
+          </span>
+          <button
+            type="button"
+            onClick={() => setShowSettings(true)}
+            className="px-3 py-1 text-xs font-medium rounded-lg border border-red-200 bg-white hover:bg-red-100"
+          >
+            ⚙️ Settings
+          </button>
+        </div>
+      )}
+
       <ChatInterface
         onUserQuery={handleUserQuery}
+        onStop={queryQueue.stop}
+        onRegenerate={handleRegenerate}
+        onSelectVariant={handleSelectVariant}
+        onEditMessage={handleEditMessage}
+        onSelectBranch={handleSelectBranch}
+        getBranchInfo={getBranchInfo}
+        extractionTemplates={extractionTemplates}
+        onExtract={handleExtract}
+        queuedQueries={queryQueue.queue}
+        onQueueQuery={queryQueue.enqueue}
+        onCancelQueued={queryQueue.cancel}
+        onMoveQueued={queryQueue.move}
+        onNoticeAction={handleNoticeAction}
+        slashCommands={slashCommands}
+        focusMessageId={focusMessageId}
+        onMessageFocused={() => setFocusMessageId(null)}
         showScreenToggle={false}
         isPIPMode={false}
       />
+
+      {searchQuery !== null && (
+        <SearchPanel
+          current={{ id: conversationId, ...snapshotConversation() }}
+          initialQuery={searchQuery}
+          onSelect={handleSearchSelect}
+          onClose={() => setSearchQuery(null)}
+        />
+      )}
+
+      {showHistory && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={conversationId}
+          onOpen={handleOpenConversation}
+          onNew={handleNewConversation}
+          onRename={handleRenameConversation}
+          onDelete={handleDeleteConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showSettings && <SettingsPanel onClose={handleCloseSettings} />}
     </div>
   );
 };
\ No newline at end of file
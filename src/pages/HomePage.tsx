@@ -1,11 +1,42 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { useChromeAI } from "../hooks/useChromeAI";
+import { useAIAvailability } from "../hooks/useAIAvailability";
+import { useSettingsContext } from "../contexts/SettingsContext";
+import { SettingsPanel } from "../components/SettingsPanel";
+import { warmUpProvider } from "../llm/warmup";
 
 export const HomePage = () => {
   const [isStarting, setIsStarting] = useState(false);
-  const { isReady: aiReady, status: aiStatus } = useChromeAI();
+  const [showSettings, setShowSettings] = useState(false);
+  const { provider } = useSettingsContext();
+  const {
+    isReady: aiReady,
+    status: aiStatus,
+    downloadProgress,
+    downloadError,
+    startDownload,
+  } = useAIAvailability(provider);
   const navigate = useNavigate();
+  const autoDownloadTriedRef = useRef(false);
+
+  const needsDownload = aiStatus === "downloadable" && !!provider.download;
+  const isDownloading = aiStatus === "downloading";
+
+  // Start the download right away. Chrome may insist on a click first, in
+  // which case the start button offers the download instead.
+  useEffect(() => {
+    if (needsDownload && !autoDownloadTriedRef.current) {
+      autoDownloadTriedRef.current = true;
+      startDownload();
+    }
+  }, [needsDownload, startDownload]);
+
+  // Load the model ahead of time so the first question answers quickly
+  useEffect(() => {
+    if (aiReady) {
+      warmUpProvider(provider);
+    }
+  }, [aiReady, provider]);
 
   const startAssistant = async () => {
     setIsStarting(true);
@@ -13,11 +44,18 @@ export const HomePage = () => {
     // Check AI availability first
     if (!aiReady) {
       if (aiStatus === "not-available") {
-        alert("Chrome AI not available. Please use Chrome Canary with AI features enabled.");
+        alert(
+          provider.id === "chrome"
+            ? "Chrome AI not available. Please use Chrome Canary with AI features enabled."
+            : `${provider.label} is not reachable. Check the server URL in settings.`
+        );
         setIsStarting(false);
         return;
       } else {
-        alert(`AI is loading (${aiStatus}). Please wait...`);
+        // Progress shows in the status row above
+        if (needsDownload) {
+          startDownload();
+        }
         setIsStarting(false);
         return;
       }
@@ -133,15 +171,48 @@ export const HomePage = () => {
                   ? "bg-red-400" 
                   : "bg-yellow-400 animate-pulse"
               }`} />
-              <span className="font-medium">
-                Chrome AI (Gemini Nano): {" "}
+              <span className="font-medium flex-1">
+                {provider.label}: {" "}
                 {aiReady
                   ? "Ready"
                   : aiStatus === "not-available"
                   ? "Not Available"
+                  : isDownloading
+                  ? `Downloading model${
+                      downloadProgress !== null
+                        ? ` ${Math.round(downloadProgress * 100)}%`
+                        : "..."
+                    }`
                   : aiStatus}
               </span>
+              <button
+                type="button"
+                onClick={() => setShowSettings(true)}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 text-white border border-white/20 rounded-lg cursor-pointer"
+              >
+                ⚙️ Change provider
+              </button>
             </div>
+            {isDownloading && (
+              <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className={`h-full bg-yellow-400 transition-all duration-300 ${
+                    downloadProgress === null ? "w-1/3 animate-pulse" : ""
+                  }`}
+                  style={
+                    downloadProgress !== null
+                      ? { width: `${Math.round(downloadProgress * 100)}%` }
+                      : undefined
+                  }
+                />
+              </div>
+            )}
+            {downloadError && !isDownloading && (
+              <p className="text-sm text-yellow-300 m-0">
+                The model download did not start ({downloadError}). Click the button
+                below to start it.
+              </p>
+            )}
             <div className="flex items-center gap-4 p-4 rounded-xl bg-blue-500/10 border border-blue-500/30 text-blue-400">
               <div className="w-3 h-3 rounded-full bg-blue-400" />
               <span className="font-medium">
@@ -150,7 +221,7 @@ export const HomePage = () => {
             </div>
           </div>
 
-          {aiStatus === "not-available" && (
+          {aiStatus === "not-available" && provider.id === "chrome" && (
             <div className="mt-6 p-6 bg-red-500/10 rounded-xl border border-red-500/30">
               <h4 className="text-red-400 font-bold mb-4 flex items-center gap-2">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -183,14 +254,21 @@ export const HomePage = () => {
               </ol>
             </div>
           )}
+
+          {aiStatus === "not-available" && provider.id === "openai" && (
+            <div className="mt-6 p-6 bg-red-500/10 rounded-xl border border-red-500/30 text-gray-300">
+              Could not reach the OpenAI-compatible server. Make sure it is running
+              and allows requests from this page, or switch back to Chrome AI in settings.
+            </div>
+          )}
         </div>
 
         <div className="text-center">
           <button
             onClick={startAssistant}
-            disabled={isStarting || !aiReady}
+            disabled={isStarting || (!aiReady && !needsDownload)}
             className={`relative px-10 py-4 text-lg font-bold rounded-2xl transition-all duration-300 transform ${
-              isStarting || !aiReady
+              isStarting || (!aiReady && !needsDownload)
                 ? "bg-gray-600 text-gray-400 cursor-not-allowed"
                 : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white cursor-pointer shadow-xl hover:shadow-2xl hover:scale-105"
             }`}
@@ -201,6 +279,8 @@ export const HomePage = () => {
                 <div className="animate-spin h-5 w-5 border-2 border-gray-300 border-t-white rounded-full"></div>
                 Starting...
               </div>
+            ) : needsDownload ? (
+              <div className="flex items-center gap-3">⬇️ Download AI Model</div>
             ) : (
               <div className="flex items-center gap-3">
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -213,6 +293,8 @@ export const HomePage = () => {
           </button>
         </div>
       </div>
+
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,380 @@
+import type { ConversationSummary } from "../contexts/SharedChatContext";
+import { activePath, type ConversationTree } from "./conversationTree";
+import type { ConversationSnapshot } from "./conversationStore";
+import type { ProviderId } from "../llm/types";
+import type { ToolArguments, ToolCall } from "../llm/tools";
+import {
+  screenshotOf,
+  type Attachment,
+  type Message,
+  type MessageMeta,
+  type MessageStatus,
+  type NoticeAction,
+} from "./messages";
+import { renderMarkdown } from "./markdown";
+import { escapeHtml } from "./sanitizeHtml";
+
+// Conversations leave the app as Markdown (for pasting into tickets and
+// docs), JSON (every message record, for backup and re-import) or a single
+// HTML file that opens offline with the answers rendered.
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+const EXPORT_KIND = "screen-genie-conversation";
+const EXPORT_VERSION = 1;
+
+interface ConversationExport {
+  kind: typeof EXPORT_KIND;
+  version: number;
+  exportedAt: string;
+  title: string;
+  createdAt: number;
+  tree: ConversationTree; // every branch, screenshots included
+  summary: ConversationSummary | null;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  json: { extension: "json", mimeType: "application/json" },
+  html: { extension: "html", mimeType: "text/html" },
+};
+
+// Only the questions and answers; notices are app chrome, not conversation
+const exportedTurns = (messages: Message[]) =>
+  messages.filter((msg) => msg.type === "user" || msg.type === "assistant");
+
+const formatTime = (timestamp: Date) => timestamp.toLocaleString();
+
+const toMarkdown = (snapshot: ConversationSnapshot) => {
+  const turns = exportedTurns(activePath(snapshot.tree)).map((msg) => {
+    const speaker = msg.type === "user" ? "🧑 You" : "🤖 Assistant";
+    return `## ${speaker}\n\n_${formatTime(msg.timestamp)}_\n\n${msg.content.trim()}\n`;
+  });
+  return `# ${snapshot.title}\n\n${turns.join("\n")}`;
+};
+
+const toJson = (snapshot: ConversationSnapshot) => {
+  const data: ConversationExport = {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...snapshot,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// Screenshots are captured by the app as data URLs; anything else is dropped
+// rather than letting an edited file point the page at a remote address
+const isImageDataUrl = (src: string) => /^data:image\/(png|jpeg|webp);base64,[\w+/=]+$/.test(src);
+
+// Kept in the file so it needs nothing from the app or the network. Math is
+// shown through the MathML KaTeX emits, since its fonts are not bundled.
+const HTML_STYLES = `
+body { margin: 0; background: #f9fafb; color: #111827; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 52rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1 { font-size: 1.5rem; margin: 0 0 1.5rem; }
+.turn { margin-bottom: 1.5rem; padding: 1rem 1.25rem; border-radius: 12px; background: #ffffff; border: 1px solid #e5e7eb; }
+.turn.user { background: #eff6ff; border-color: #bfdbfe; }
+.speaker { font-size: 0.8rem; font-weight: 600; color: #6b7280; margin-bottom: 0.5rem; }
+.user-text { white-space: pre-wrap; margin: 0; }
+.screenshot { display: block; max-width: 100%; margin-top: 0.75rem; border: 1px solid #d1d5db; border-radius: 8px; }
+code { font-family: "SF Mono", Monaco, Consolas, monospace; font-size: 0.875em; background: #f3f4f6; padding: 0.1rem 0.3rem; border-radius: 4px; }
+pre { background: #1f2937; color: #f9fafb; padding: 1rem; overflow-x: auto; margin: 0; }
+pre code { background: none; padding: 0; color: inherit; }
+.code-block { margin: 1rem 0; border: 1px solid #374151; border-radius: 8px; overflow: hidden; }
+.code-block-header { padding: 0.25rem 0.75rem; background: #111827; color: #9ca3af; font-size: 0.75rem; }
+.code-block-actions { display: none; }
+.hljs-keyword, .hljs-selector-tag { color: #ff7b72; }
+.hljs-string, .hljs-regexp { color: #a5d6ff; }
+.hljs-number, .hljs-literal, .hljs-attr, .hljs-built_in { color: #79c0ff; }
+.hljs-title, .hljs-section { color: #d2a8ff; }
+.hljs-comment { color: #8b949e; font-style: italic; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.75rem; }
+blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid #d1d5db; color: #4b5563; }
+.katex-html { display: none; }
+.math-display { display: block; margin: 1rem 0; text-align: center; }
+`;
+
+const toHtml = (snapshot: ConversationSnapshot) => {
+  const turns = exportedTurns(activePath(snapshot.tree)).map((msg) => {
+    const isUser = msg.type === "user";
+    const body = isUser
+      ? `<p class="user-text">${escapeHtml(msg.content)}</p>`
+      : renderMarkdown(msg.content, false);
+    const dataUrl = screenshotOf(msg);
+    const screenshot =
+      dataUrl && isImageDataUrl(dataUrl)
+        ? `<img class="screenshot" src="${dataUrl}" alt="Screen captured with this question">`
+        : "";
+    return `<section class="turn ${msg.type}">
+<div class="speaker">${isUser ? "You" : "Assistant"} · ${escapeHtml(formatTime(msg.timestamp))}</div>
+${body}${screenshot}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(snapshot.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(snapshot.title)}</h1>
+${turns.join("\n")}
+</main>
+</body>
+</html>
+`;
+};
+
+const fileName = (title: string, format: ExportFormat) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug || "conversation"}-${date}.${FILE_TYPES[format].extension}`;
+};
+
+// Builds the file and hands it to the browser as a download
+export const exportConversation = (snapshot: ConversationSnapshot, format: ExportFormat) => {
+  const content =
+    format === "markdown" ? toMarkdown(snapshot) : format === "json" ? toJson(snapshot) : toHtml(snapshot);
+  const blob = new Blob([content], { type: `${FILE_TYPES[format].mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName(snapshot.title, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const MESSAGE_TYPES = new Set<unknown>(["user", "assistant", "system", "error"]);
+const MESSAGE_STATUSES = new Set<unknown>(["streaming", "complete", "aborted", "failed"]);
+const TOOL_CALL_STATUSES = new Set<unknown>(["awaiting", "running", "done", "error"]);
+const PROVIDER_IDS = new Set<unknown>(["chrome", "openai"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+const optionalNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+// The optional parts of an imported message are checked one by one, and a
+// part that does not fit is dropped rather than reaching the renderer
+
+const readAttachment = (value: unknown): Attachment | null => {
+  if (!isRecord(value)) return null;
+  const { kind, dataUrl } = value;
+  if (kind === "ocr-text") {
+    return typeof value.text === "string" ? { kind, text: value.text } : null;
+  }
+  if (typeof dataUrl !== "string") return null;
+  if (kind === "screenshot") {
+    return isImageDataUrl(dataUrl) ? { kind, dataUrl } : null;
+  }
+  if (
+    kind === "file" &&
+    dataUrl.startsWith("data:") &&
+    typeof value.name === "string" &&
+    typeof value.mimeType === "string" &&
+    typeof value.size === "number"
+  ) {
+    return { kind, name: value.name, mimeType: value.mimeType, size: value.size, dataUrl };
+  }
+  return null;
+};
+
+const readMeta = (value: unknown): MessageMeta | undefined => {
+  if (!isRecord(value)) return undefined;
+  return {
+    profileId: optionalString(value.profileId),
+    profileName: optionalString(value.profileName),
+    providerId: PROVIDER_IDS.has(value.providerId) ? (value.providerId as ProviderId) : undefined,
+    providerLabel: optionalString(value.providerLabel),
+    latencyMs: optionalNumber(value.latencyMs),
+    inputTokens: optionalNumber(value.inputTokens),
+    outputTokens: optionalNumber(value.outputTokens),
+  };
+};
+
+const readExtraction = (value: unknown): Message["extraction"] =>
+  isRecord(value) &&
+  isRecord(value.data) &&
+  (value.source === "image" || value.source === "ocr") &&
+  typeof value.templateName === "string"
+    ? { data: value.data, source: value.source, templateName: value.templateName }
+    : undefined;
+
+const readToolCall = (value: unknown): ToolCall | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.name !== "string" ||
+    !TOOL_CALL_STATUSES.has(value.status)
+  ) {
+    return null;
+  }
+  const args: ToolArguments = {};
+  if (isRecord(value.arguments)) {
+    for (const [name, arg] of Object.entries(value.arguments)) {
+      if (typeof arg === "string" || typeof arg === "number" || typeof arg === "boolean") {
+        args[name] = arg;
+      }
+    }
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    arguments: args,
+    status: value.status as ToolCall["status"],
+    result: optionalString(value.result),
+  };
+};
+
+const readAction = (value: unknown): NoticeAction | undefined => {
+  if (!isRecord(value)) return undefined;
+  switch (value.type) {
+    case "retry-question":
+    case "retry-answer":
+      return typeof value.messageId === "string"
+        ? { type: value.type, messageId: value.messageId }
+        : undefined;
+    case "retry-extraction":
+      return typeof value.templateId === "string"
+        ? { type: value.type, templateId: value.templateId }
+        : undefined;
+    case "enable-screen":
+    case "popup-help":
+    case "open-setup":
+      return { type: value.type };
+    default:
+      return undefined;
+  }
+};
+
+const readList = <T>(value: unknown, read: (item: unknown) => T | null): T[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(read).filter((item): item is T => item !== null);
+  return items.length ? items : undefined;
+};
+
+const readMessage = (id: string, value: Record<string, unknown>): Message => {
+  const timestamp = new Date(value.timestamp as string);
+  const status = MESSAGE_STATUSES.has(value.status)
+    ? (value.status as MessageStatus)
+    : "complete";
+  const variants =
+    Array.isArray(value.variants) && value.variants.every((v) => typeof v === "string")
+      ? (value.variants as string[])
+      : undefined;
+  const activeVariant = optionalNumber(value.activeVariant);
+
+  return {
+    id,
+    type: value.type as Message["type"],
+    content: value.content as string,
+    timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    status: status === "streaming" ? "aborted" : status, // cut off by the export
+    attachments: readList(value.attachments, readAttachment),
+    meta: readMeta(value.meta),
+    variants,
+    activeVariant:
+      variants && activeVariant !== undefined && variants[activeVariant] !== undefined
+        ? activeVariant
+        : undefined,
+    extraction: readExtraction(value.extraction),
+    toolCalls: readList(value.toolCalls, readToolCall),
+    action: readAction(value.action),
+    dismissed: value.dismissed === true ? true : undefined,
+  };
+};
+
+const readId = (value: unknown) => (typeof value === "string" ? value : null);
+
+// Checks the shape of an imported tree and turns timestamps back into dates
+const readTree = (value: unknown): ConversationTree => {
+  if (!isRecord(value) || typeof value.rootId !== "string" || !isRecord(value.nodes)) {
+    throw new Error("The file has no conversation in it.");
+  }
+
+  const nodes: ConversationTree["nodes"] = {};
+  for (const [key, node] of Object.entries(value.nodes)) {
+    const message = isRecord(node) ? node.message : undefined;
+    if (
+      !isRecord(node) ||
+      !isRecord(message) ||
+      message.id !== key ||
+      !MESSAGE_TYPES.has(message.type) ||
+      typeof message.content !== "string" ||
+      !Array.isArray(node.childIds) ||
+      !node.childIds.every((id) => typeof id === "string")
+    ) {
+      throw new Error("The conversation in the file is damaged.");
+    }
+    nodes[key] = {
+      message: readMessage(key, message),
+      parentId: readId(node.parentId),
+      childIds: node.childIds as string[],
+      activeChildId: readId(node.activeChildId),
+    };
+  }
+
+  return { rootId: value.rootId, nodes };
+};
+
+// Parent and child links must agree, so a hand-edited file cannot leave the
+// active path pointing at a missing message or looping back on itself
+const isLinked = ({ rootId, nodes }: ConversationTree) => {
+  const linked = Object.values(nodes).every(
+    (node) =>
+      node.childIds.every((id) => nodes[id]?.parentId === node.message.id) &&
+      (node.activeChildId === null || node.childIds.includes(node.activeChildId))
+  );
+  return nodes[rootId]?.parentId === null && linked;
+};
+
+// Reads a file written by the JSON export. Throws with a message fit to
+// show the user when the file is not one.
+export const parseConversationExport = (text: string): ConversationSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.kind !== EXPORT_KIND) {
+    throw new Error("The file is not a ScreenGenie conversation export.");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error("The file was exported by a newer version of ScreenGenie.");
+  }
+
+  const summary = data.summary;
+  const snapshot: ConversationSnapshot = {
+    title: typeof data.title === "string" && data.title.trim() ? data.title.trim() : "Imported chat",
+    createdAt: typeof data.createdAt === "number" ? data.createdAt : Date.now(),
+    tree: readTree(data.tree),
+    summary:
+      isRecord(summary) &&
+      typeof summary.text === "string" &&
+      typeof summary.throughMessageId === "string"
+        ? { text: summary.text, throughMessageId: summary.throughMessageId }
+        : null,
+  };
+
+  if (!isLinked(snapshot.tree)) {
+    throw new Error("The conversation in the file is damaged.");
+  }
+  return snapshot;
+};
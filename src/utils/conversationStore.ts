@@ -0,0 +1,114 @@
+import type { ConversationSummary } from "../contexts/SharedChatContext";
+import { settleStreaming, type ConversationTree } from "./conversationTree";
+import type { Message } from "./messages";
+
+// Past conversations, kept in IndexedDB so a reload or a closed tab does not
+// lose them. Each record holds the whole message tree (branches included)
+// and the rolling summary, which is enough to rebuild an AI session later.
+
+const DB_NAME = "screen-genie";
+const DB_VERSION = 1;
+const STORE = "conversations";
+
+export interface StoredConversation {
+  id: string;
+  title: string;
+  titleEdited: boolean; // renamed by the user, so no longer derived from the chat
+  createdAt: number;
+  updatedAt: number;
+  tree: ConversationTree;
+  summary: ConversationSummary | null;
+}
+
+// What the history sidebar lists
+export type ConversationListing = Pick<
+  StoredConversation,
+  "id" | "title" | "createdAt" | "updatedAt"
+>;
+
+// The conversation itself, without its place in the history; what export
+// writes and import reads
+export type ConversationSnapshot = Pick<
+  StoredConversation,
+  "title" | "createdAt" | "tree" | "summary"
+>;
+
+const MAX_TITLE_LENGTH = 48;
+
+// Titles come from the first question, trimmed to a single short line
+export const conversationTitle = (messages: Message[]) => {
+  const firstQuestion = messages.find((msg) => msg.type === "user")?.content;
+  const line = firstQuestion?.replace(/\s+/g, " ").trim();
+  if (!line) return "New chat";
+  return line.length > MAX_TITLE_LENGTH
+    ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : line;
+};
+
+export const createConversationId = () =>
+  `conversation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("updatedAt", "updatedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // let a later call try again
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Most recently updated first
+export const listConversations = async (): Promise<ConversationListing[]> => {
+  const conversations = await run<StoredConversation[]>("readonly", (store) =>
+    store.index("updatedAt").getAll()
+  );
+  return conversations
+    .reverse()
+    .map(({ id, title, createdAt, updatedAt }) => ({ id, title, createdAt, updatedAt }));
+};
+
+export const loadConversation = async (id: string) => {
+  const stored = await run<StoredConversation | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  return stored && { ...stored, tree: settleStreaming(stored.tree) };
+};
+
+// Every conversation in full, for building the search index
+export const loadAllConversations = () =>
+  run<StoredConversation[]>("readonly", (store) => store.getAll());
+
+export const saveConversation = async (conversation: StoredConversation) => {
+  await run("readwrite", (store) => store.put(conversation));
+};
+
+export const renameConversation = async (id: string, title: string) => {
+  const conversation = await loadConversation(id);
+  if (!conversation) return;
+  await saveConversation({ ...conversation, title, titleEdited: true });
+};
+
+export const deleteConversation = async (id: string) => {
+  await run("readwrite", (store) => store.delete(id));
+};
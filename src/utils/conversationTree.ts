@@ -0,0 +1,157 @@
+import type { Message, MessageId } from "./messages";
+
+// Conversations are stored as a tree so an edited question can start a new
+// branch without losing the answers that followed the original one. Each
+// node remembers which child is active; following those links from the
+// root gives the conversation currently on screen.
+
+export interface MessageNode {
+  message: Message;
+  parentId: MessageId | null;
+  childIds: MessageId[];
+  activeChildId: MessageId | null;
+}
+
+export interface ConversationTree {
+  rootId: MessageId;
+  nodes: Record<MessageId, MessageNode>;
+}
+
+export interface BranchInfo {
+  index: number; // position of the message among its siblings
+  count: number; // how many versions of the message exist
+}
+
+export const createConversationTree = (root: Message): ConversationTree => ({
+  rootId: root.id,
+  nodes: {
+    [root.id]: { message: root, parentId: null, childIds: [], activeChildId: null },
+  },
+});
+
+export const activePath = (tree: ConversationTree): Message[] => {
+  const path: Message[] = [];
+  let node: MessageNode | undefined = tree.nodes[tree.rootId];
+
+  while (node) {
+    path.push(node.message);
+    node = node.activeChildId !== null ? tree.nodes[node.activeChildId] : undefined;
+  }
+
+  return path;
+};
+
+const activeLeafId = (tree: ConversationTree) => {
+  let id = tree.rootId;
+  while (tree.nodes[id]?.activeChildId != null) {
+    id = tree.nodes[id]!.activeChildId!;
+  }
+  return id;
+};
+
+// New messages always continue the active branch
+export const appendMessage = (
+  tree: ConversationTree,
+  message: Message
+): ConversationTree => {
+  const parentId = activeLeafId(tree);
+  const parent = tree.nodes[parentId]!;
+
+  return {
+    ...tree,
+    nodes: {
+      ...tree.nodes,
+      [parentId]: {
+        ...parent,
+        childIds: [...parent.childIds, message.id],
+        activeChildId: message.id,
+      },
+      [message.id]: { message, parentId, childIds: [], activeChildId: null },
+    },
+  };
+};
+
+export const updateNodeMessage = (
+  tree: ConversationTree,
+  id: MessageId,
+  changes: Partial<Message>
+): ConversationTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [id]: { ...node, message: { ...node.message, ...changes } } },
+  };
+};
+
+// Cut the active branch just above a message so the next message appended
+// becomes its sibling. Nothing is deleted: the old branch stays reachable.
+export const forkBefore = (tree: ConversationTree, id: MessageId): ConversationTree => {
+  const parentId = tree.nodes[id]?.parentId;
+  if (parentId == null) return tree;
+
+  const parent = tree.nodes[parentId]!;
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [parentId]: { ...parent, activeChildId: null } },
+  };
+};
+
+export const branchInfo = (tree: ConversationTree, id: MessageId): BranchInfo | null => {
+  const parentId = tree.nodes[id]?.parentId;
+  if (parentId == null) return null;
+
+  const siblings = tree.nodes[parentId]!.childIds;
+  return { index: siblings.indexOf(id), count: siblings.length };
+};
+
+// Make the sibling at `index` (and whatever branch it last had open) active
+export const selectSibling = (
+  tree: ConversationTree,
+  id: MessageId,
+  index: number
+): ConversationTree => {
+  const parentId = tree.nodes[id]?.parentId;
+  if (parentId == null) return tree;
+
+  const parent = tree.nodes[parentId]!;
+  const siblingId = parent.childIds[index];
+  if (siblingId === undefined) return tree;
+
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [parentId]: { ...parent, activeChildId: siblingId } },
+  };
+};
+
+// Points every ancestor of the message at it, so it is on the active path
+export const revealMessage = (tree: ConversationTree, id: MessageId): ConversationTree => {
+  if (!tree.nodes[id]) return tree;
+
+  const nodes = { ...tree.nodes };
+  let childId = id;
+  let parentId = nodes[id]!.parentId;
+  while (parentId !== null) {
+    const parent = nodes[parentId]!;
+    if (parent.activeChildId !== childId) {
+      nodes[parentId] = { ...parent, activeChildId: childId };
+    }
+    childId = parentId;
+    parentId = parent.parentId;
+  }
+  return { ...tree, nodes };
+};
+
+// Messages still being written when the tree was saved were cut off by
+// the page going away
+export const settleStreaming = (tree: ConversationTree): ConversationTree => {
+  const nodes: ConversationTree["nodes"] = {};
+  for (const [id, node] of Object.entries(tree.nodes)) {
+    nodes[id] =
+      node.message.status === "streaming"
+        ? { ...node, message: { ...node.message, status: "aborted" } }
+        : node;
+  }
+  return { ...tree, nodes };
+};
@@ -0,0 +1,40 @@
+// Coalesce rapid updates (one per streamed chunk) into at most one per
+// animation frame. The floating window runs on the main window's event
+// loop, and a hidden main window gets no animation frames, so a short
+// timer flushes as well.
+
+const FALLBACK_FLUSH_MS = 50;
+
+export interface FrameBatcher<T> {
+  push: (update: T) => void;
+  flush: () => void;
+}
+
+export const createFrameBatcher = <T>(
+  apply: (update: T) => void,
+  merge: (pending: T, next: T) => T = (_pending, next) => next
+): FrameBatcher<T> => {
+  let pending: { update: T } | null = null;
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (timer !== null) clearTimeout(timer);
+    frame = timer = null;
+
+    if (pending) {
+      const { update } = pending;
+      pending = null;
+      apply(update);
+    }
+  };
+
+  const push = (update: T) => {
+    pending = { update: pending ? merge(pending.update, update) : update };
+    if (frame === null) frame = requestAnimationFrame(flush);
+    if (timer === null) timer = setTimeout(flush, FALLBACK_FLUSH_MS);
+  };
+
+  return { push, flush };
+};
@@ -0,0 +1,94 @@
+// Image helpers shared by the capture and AI session code
+
+// Convert a base64 data URL (as produced by canvas.toDataURL) to a Blob
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64Data] = dataUrl.split(",");
+  if (!base64Data) {
+    throw new Error("Invalid screenshot format");
+  }
+
+  const mimeType = header?.match(/^data:([^;]+)/)?.[1] ?? "image/png";
+  const byteArray = Uint8Array.from(atob(base64Data), (c) => c.charCodeAt(0));
+  return new Blob([byteArray], { type: mimeType });
+};
+
+export interface ImageRegion {
+  // Fractions of the image size, 0 to 1, measured from the top-left corner
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = src;
+  });
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Cut a region out of a data URL image and return it as a PNG data URL
+export const cropImage = async (dataUrl: string, region: ImageRegion) => {
+  const image = await loadImage(dataUrl);
+  const x = clamp(region.x) * image.naturalWidth;
+  const y = clamp(region.y) * image.naturalHeight;
+  const width = Math.max(1, clamp(region.width) * image.naturalWidth);
+  const height = Math.max(1, clamp(region.height) * image.naturalHeight);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.min(width, image.naturalWidth - x) || 1;
+  canvas.height = Math.min(height, image.naturalHeight - y) || 1;
+  canvas.getContext("2d")?.drawImage(
+    image,
+    x,
+    y,
+    canvas.width,
+    canvas.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
+  return canvas.toDataURL("image/png");
+};
+
+// Size of the grayscale thumbnails frames are compared by. Fine enough
+// that a changed line of text moves the cells it falls in.
+export const THUMBNAIL_WIDTH = 64;
+export const THUMBNAIL_HEIGHT = 36;
+
+// The image scaled down to THUMBNAIL_WIDTH x THUMBNAIL_HEIGHT grayscale
+// cells, one byte (0-255) each
+export const grayscaleThumbnail = async (dataUrl: string) => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(image, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  const { data } = context.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  const cells = new Uint8Array(THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT);
+  for (let i = 0; i < cells.length; i++) {
+    const p = i * 4;
+    cells[i] = Math.round(data[p]! * 0.299 + data[p + 1]! * 0.587 + data[p + 2]! * 0.114);
+  }
+  return cells;
+};
+
+// How far apart two thumbnails of the same size are: the mean and the
+// largest absolute difference across their cells
+export const thumbnailDifference = (a: Uint8Array, b: Uint8Array) => {
+  let total = 0;
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    const difference = Math.abs(a[i]! - b[i]!);
+    total += difference;
+    max = Math.max(max, difference);
+  }
+  return { mean: total / a.length, max };
+};
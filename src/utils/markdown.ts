@@ -0,0 +1,65 @@
+import { marked } from "marked";
+import hljs from "highlight.js/lib/common";
+import { ALLOWED_RAW_HTML, escapeHtml, sanitizeHtml } from "./sanitizeHtml";
+import { mathExtension, typesetMath } from "./math";
+
+marked.setOptions({
+  breaks: true,
+  gfm: true,
+});
+
+// Fenced code gets highlighting plus a toolbar. The buttons only carry a
+// data-code-action; MarkdownContent handles their clicks.
+const renderCodeBlock = (code: string, info = "") => {
+  const language = info.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+  const known = language !== "" && hljs.getLanguage(language) !== undefined;
+  const highlighted = known
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escapeHtml(code);
+  const codeClass = known ? `hljs language-${language}` : "hljs";
+
+  const block = `<div class="code-block">
+<div class="code-block-header"><span class="code-block-language">${escapeHtml(language || "text")}</span><span class="code-block-actions"><button type="button" data-code-action="speak">🔊 Speak</button><button type="button" data-code-action="copy">📋 Copy</button></span></div>
+<pre><code class="${codeClass}">${highlighted}</code></pre>
+</div>
+`;
+  // Diagrams replace their source once MarkdownContent has drawn them
+  return language === "mermaid" ? `<div class="mermaid-block">${block}</div>\n` : block;
+};
+
+marked.use(mathExtension, {
+  renderer: {
+    code: ({ text, lang }) => renderCodeBlock(text, lang),
+    // HTML typed into a reply is shown as written rather than rendered
+    html: ({ text }) =>
+      ALLOWED_RAW_HTML.test(text.trim()) ? text : escapeHtml(text),
+  },
+});
+
+const toHtml = (content: string) =>
+  typesetMath(sanitizeHtml(marked.parse(content, { async: false }) as string));
+
+// Sanitized HTML of finished messages, so re-renders never parse them again
+const MAX_CACHED_MESSAGES = 200;
+const htmlCache = new Map<string, string>();
+
+// Render a message's markdown. Text that is still streaming changes every
+// frame, so it is parsed without polluting the cache.
+export const renderMarkdown = (content: string, cache = true) => {
+  if (!cache) return toHtml(content);
+
+  const cached = htmlCache.get(content);
+  if (cached !== undefined) {
+    // Refresh its position so the least recently shown message goes first
+    htmlCache.delete(content);
+    htmlCache.set(content, cached);
+    return cached;
+  }
+
+  const html = toHtml(content);
+  htmlCache.set(content, html);
+  if (htmlCache.size > MAX_CACHED_MESSAGES) {
+    htmlCache.delete(htmlCache.keys().next().value!);
+  }
+  return html;
+};
@@ -0,0 +1,75 @@
+import katex from "katex";
+import type { MarkedExtension, Tokens } from "marked";
+import { escapeHtml } from "./sanitizeHtml";
+
+// `$...$` and `$$...$$` in answers are parsed by marked into placeholders
+// holding the TeX source as text. The placeholders go through the sanitizer
+// like everything else, and only then are they typeset by KaTeX, whose
+// output never contains markup taken from its input.
+
+const BLOCK_MATH = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+const INLINE_DISPLAY_MATH = /^\$\$([^$]+?)\$\$/;
+// No space inside the delimiters and no digit after, so prices such as
+// "$5 and $10" stay text
+const INLINE_MATH = /^\$(?![\s$])([^$\n]+?)(?<!\s)\$(?!\d)/;
+
+const placeholder = (tag: "span" | "div", tex: string, display: boolean) =>
+  `<${tag} class="${display ? "math-display" : "math-inline"}">${escapeHtml(tex.trim())}</${tag}>`;
+
+export const mathExtension: MarkedExtension = {
+  extensions: [
+    {
+      name: "mathBlock",
+      level: "block",
+      start: (src: string) => /^\$\$/m.exec(src)?.index,
+      tokenizer: (src: string) => {
+        const match = BLOCK_MATH.exec(src);
+        if (!match) return undefined;
+        return { type: "mathBlock", raw: match[0], text: match[1]! };
+      },
+      renderer: (token: Tokens.Generic) => `${placeholder("div", token.text, true)}\n`,
+    },
+    {
+      name: "mathInline",
+      level: "inline",
+      start: (src: string) => src.indexOf("$"),
+      tokenizer: (src: string) => {
+        const display = INLINE_DISPLAY_MATH.exec(src);
+        if (display) {
+          return { type: "mathInline", raw: display[0], text: display[1]!, display: true };
+        }
+        const match = INLINE_MATH.exec(src);
+        if (!match) return undefined;
+        return { type: "mathInline", raw: match[0], text: match[1]!, display: false };
+      },
+      renderer: (token: Tokens.Generic) =>
+        placeholder("span", token.text, token.display),
+    },
+  ],
+};
+
+// Typeset the placeholders in sanitized HTML. TeX that KaTeX cannot parse
+// is left as its source so the reader still sees what the model wrote.
+export const typesetMath = (html: string) => {
+  if (!html.includes("math-")) return html;
+
+  const doc = new DOMParser().parseFromString(
+    `<!doctype html><body>${html}`,
+    "text/html"
+  );
+  for (const element of doc.body.querySelectorAll(".math-inline, .math-display")) {
+    const tex = element.textContent ?? "";
+    try {
+      element.innerHTML = katex.renderToString(tex, {
+        displayMode: element.classList.contains("math-display"),
+        throwOnError: true,
+        trust: false,
+        output: "htmlAndMathml",
+      });
+    } catch {
+      element.classList.add("math-error");
+      element.setAttribute("title", "This formula could not be rendered");
+    }
+  }
+  return doc.body.innerHTML;
+};
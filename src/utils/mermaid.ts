@@ -0,0 +1,68 @@
+// Mermaid fences are rendered after the markdown is on screen: mermaid lays
+// diagrams out asynchronously and is large, so it is loaded on first use.
+// Until it finishes (or if the source does not parse) the fence shows as a
+// regular code block.
+
+type Mermaid = typeof import("mermaid").default;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+const loadMermaid = () => {
+  mermaidPromise ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: "strict", // mermaid sanitizes labels and drops links
+      theme: "dark",
+    });
+    return mermaid;
+  });
+  return mermaidPromise;
+};
+
+// Rendered SVG per diagram source, so remounting a message is instant
+const svgCache = new Map<string, Promise<string>>();
+let diagramCount = 0;
+
+const renderDiagram = (source: string) => {
+  let svg = svgCache.get(source);
+  if (!svg) {
+    const id = `mermaid-diagram-${++diagramCount}`;
+    svg = loadMermaid().then(async (mermaid) => {
+      try {
+        const { svg } = await mermaid.render(id, source);
+        return svg;
+      } catch (error) {
+        // A failed render can leave its scratch element in the page
+        document.getElementById(`d${id}`)?.remove();
+        throw error;
+      }
+    });
+    // Failures are not cached: the source may be fixed by a later edit
+    svg.catch(() => svgCache.delete(source));
+    svgCache.set(source, svg);
+  }
+  return svg;
+};
+
+// Replace each mermaid code block in `container` with its diagram
+export const renderMermaidBlocks = (container: HTMLElement) => {
+  const blocks = container.querySelectorAll<HTMLElement>(".mermaid-block:not([data-rendered])");
+
+  for (const block of blocks) {
+    const source = block.querySelector("code")?.textContent;
+    if (!source) continue;
+    block.dataset.rendered = "pending";
+
+    renderDiagram(source).then(
+      (svg) => {
+        if (!block.isConnected) return;
+        block.innerHTML = svg;
+        block.dataset.rendered = "done";
+      },
+      (error) => {
+        console.log("Mermaid diagram could not be rendered:", error);
+        block.dataset.rendered = "failed";
+      }
+    );
+  }
+};
@@ -0,0 +1,91 @@
+import type { ExtractionResult } from "../llm/extraction";
+import type { ToolCall } from "../llm/tools";
+import type { ProviderId } from "../llm/types";
+
+// The one message schema shared by the chat context, the floating window,
+// the query pipeline, storage and export.
+
+// Random UUIDs, so messages added at the same moment (by two windows, or a
+// question and the error it failed with) never share an id
+export type MessageId = string;
+
+export const createMessageId = (): MessageId => crypto.randomUUID();
+
+// What a message carries besides its text
+export type Attachment =
+  | { kind: "screenshot"; dataUrl: string } // frame captured with a question
+  | { kind: "ocr-text"; text: string } // the screen read as text for the model
+  | { kind: "file"; name: string; mimeType: string; size: number; dataUrl: string };
+
+export type AttachmentKind = Attachment["kind"];
+
+// streaming: the model is still writing. aborted: stopped before the model
+// finished. failed: the answer broke off with an error.
+export type MessageStatus = "streaming" | "complete" | "aborted" | "failed";
+
+// How an answer was produced
+export interface MessageMeta {
+  profileId?: string;
+  profileName?: string;
+  providerId?: ProviderId;
+  providerLabel?: string;
+  latencyMs?: number; // from sending the question to the last word
+  // Estimated with the same counter the history budget uses
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// What the button on a system or error notice does
+export type NoticeAction =
+  | { type: "retry-question"; messageId: MessageId } // ask this question again
+  | { type: "retry-answer"; messageId: MessageId } // regenerate this answer
+  | { type: "retry-extraction"; templateId: string }
+  | { type: "enable-screen" }
+  | { type: "popup-help" }
+  | { type: "open-setup" }; // the model is not ready; go back to the home page
+
+export interface Message {
+  id: MessageId;
+  type: "user" | "assistant" | "system" | "error";
+  content: string;
+  timestamp: Date;
+  status: MessageStatus;
+  attachments?: Attachment[];
+  meta?: MessageMeta;
+  variants?: string[]; // every answer generated for an assistant turn
+  activeVariant?: number; // the variant shown and kept in the conversation
+  extraction?: ExtractionResult & { templateName: string }; // rendered as a table
+  toolCalls?: ToolCall[]; // tools the model used while answering
+  action?: NoticeAction; // offered on a system or error notice
+  dismissed?: boolean; // notice closed by the user
+}
+
+export const createMessage = (
+  type: Message["type"],
+  content: string,
+  fields: Partial<Omit<Message, "type" | "content">> = {}
+): Message => ({
+  id: createMessageId(),
+  type,
+  content,
+  timestamp: new Date(),
+  status: "complete",
+  ...fields,
+});
+
+export const findAttachment = <K extends AttachmentKind>(message: Message, kind: K) =>
+  message.attachments?.find(
+    (attachment): attachment is Extract<Attachment, { kind: K }> => attachment.kind === kind
+  );
+
+// Adds an attachment, replacing any earlier one of the same kind
+export const withAttachment = (
+  attachments: Attachment[] | undefined,
+  attachment: Attachment
+): Attachment[] => [
+  ...(attachments ?? []).filter((existing) => existing.kind !== attachment.kind),
+  attachment,
+];
+
+export const screenshotOf = (message: Message) =>
+  findAttachment(message, "screenshot")?.dataUrl ?? null;
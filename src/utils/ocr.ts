@@ -0,0 +1,24 @@
+import Tesseract from "tesseract.js";
+
+// Read the text off a screenshot. Used when the model cannot take images.
+// Returns an empty string on failure so callers can carry on text-only.
+export const extractTextFromImage = async (
+  imageDataUrl: string,
+  onProgress?: (progress: number) => void
+): Promise<string> => {
+  try {
+    const {
+      data: { text },
+    } = await Tesseract.recognize(imageDataUrl, "eng", {
+      logger: (m) => {
+        if (m.status === "recognizing text") {
+          onProgress?.(m.progress);
+        }
+      },
+    });
+    return text.trim();
+  } catch (error) {
+    console.error("OCR Error:", error);
+    return "";
+  }
+};
@@ -0,0 +1,134 @@
+// Model output can be steered by text read off an untrusted page, so the HTML
+// rendered from it is cut down to an allowlist before it reaches the DOM.
+
+const ALLOWED_TAGS = new Set([
+  "a", "b", "blockquote", "br", "button", "code", "del", "div", "em", "h1", "h2", "h3",
+  "h4", "h5", "h6", "hr", "i", "input", "kbd", "li", "mark", "ol", "p", "pre",
+  "s", "span", "strong", "sub", "sup", "table", "tbody", "td", "th", "thead",
+  "tr", "ul",
+]);
+
+// Elements whose content must not survive either, not even as text
+const DROPPED_WITH_CONTENT = new Set([
+  "script", "style", "iframe", "object", "embed", "template", "noscript",
+  "svg", "math", "textarea", "select", "title",
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+  button: ["type", "data-code-action"], // code block toolbar
+  code: ["class"],
+  div: ["class"],
+  input: ["type", "checked", "disabled"], // GFM task list checkboxes
+  ol: ["start"],
+  span: ["class"],
+  td: ["align"],
+  th: ["align"],
+};
+
+// Raw HTML the model writes is shown as text, except for these inline tags
+export const ALLOWED_RAW_HTML = /^<\/?(kbd|sub|sup|mark|br)\s*\/?>$/i;
+
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+// Classes the renderer itself emits: highlight.js tokens, code languages,
+// the code block chrome and math/diagram placeholders
+const ALLOWED_CLASS =
+  /^(hljs(-[\w-]+)?|[a-z]+_|language-[\w+#-]+|code-block(-[\w-]+)?|math-(inline|display)|mermaid-block)$/;
+
+const CODE_ACTIONS = new Set(["copy", "speak"]);
+
+const escapeMap: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => escapeMap[char]!);
+
+const sanitizeAttributes = (element: Element, tag: string) => {
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+  for (const { name } of [...element.attributes]) {
+    if (!allowed.includes(name)) element.removeAttribute(name);
+  }
+
+  if (tag === "a") {
+    const href = element.getAttribute("href")?.trim() ?? "";
+    if (SAFE_URL.test(href)) {
+      element.setAttribute("href", href);
+    } else {
+      element.removeAttribute("href");
+    }
+    // Links open outside the app and cannot reach back into it
+    element.setAttribute("target", "_blank");
+    element.setAttribute("rel", "noopener noreferrer nofollow");
+  }
+
+  if (tag === "input") {
+    if (element.getAttribute("type") !== "checkbox") {
+      element.remove();
+      return;
+    }
+    element.setAttribute("disabled", "");
+  }
+
+  const classes = element.getAttribute("class");
+  if (classes !== null) {
+    const kept = classes.split(/\s+/).filter((name) => ALLOWED_CLASS.test(name));
+    if (kept.length > 0) {
+      element.setAttribute("class", kept.join(" "));
+    } else {
+      element.removeAttribute("class");
+    }
+  }
+
+  if (tag === "button") {
+    if (!CODE_ACTIONS.has(element.getAttribute("data-code-action") ?? "")) {
+      element.replaceWith(...element.childNodes);
+      return;
+    }
+    element.setAttribute("type", "button");
+  }
+};
+
+const sanitizeChildren = (parent: Node) => {
+  for (const node of [...parent.childNodes]) {
+    if (node.nodeType === Node.TEXT_NODE) continue;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.parentNode?.removeChild(node); // comments, processing instructions
+      continue;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_WITH_CONTENT.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    sanitizeChildren(element);
+
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeAttributes(element, tag);
+    } else {
+      // Keep the text of tags we do not render, e.g. <img> alt or <u>
+      const alt = tag === "img" ? element.getAttribute("alt") : null;
+      element.replaceWith(...(alt ? [alt] : [...element.childNodes]));
+    }
+  }
+};
+
+// DOMParser documents are inert: nothing in them loads or runs while we
+// walk them, unlike markup assigned to a live element
+export const sanitizeHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(
+    `<!doctype html><body>${html}`,
+    "text/html"
+  );
+  sanitizeChildren(doc.body);
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,244 @@
+import type { ConversationTree } from "./conversationTree";
+import { findAttachment, type MessageId } from "./messages";
+
+// Full-text search over saved conversations, run entirely in the page.
+// Every question and answer is indexed, on every branch, along with the
+// screen text read alongside a question. Screen text only exists where
+// the screen was read as text (the /ocr command, or when the model could
+// not take the image), so screenshots alone are not searchable.
+//
+// Queries are words that must all appear. A bare word matches whole words,
+// "word*" matches words starting with it and "quoted words" must appear
+// together in that order.
+
+export interface SearchDocument {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: MessageId;
+  type: "user" | "assistant";
+  field: "content" | "screen"; // the message text, or its screen's OCR text
+  text: string;
+  timestamp: Date;
+}
+
+interface Token {
+  term: string;
+  start: number; // character offsets in the document text
+  end: number;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  tokens: Token[][]; // per document, in order
+  postings: Map<string, Map<number, number[]>>; // term → document → token positions
+  terms: string[]; // sorted, for prefix lookups
+}
+
+export interface SnippetPart {
+  text: string;
+  hit: boolean;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  snippet: SnippetPart[];
+  hits: number;
+}
+
+type Clause =
+  | { kind: "word"; term: string }
+  | { kind: "prefix"; term: string }
+  | { kind: "phrase"; terms: string[] };
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// Case and accents are ignored: "Résumé" matches "resume"
+const normalize = (word: string) =>
+  word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    term: normalize(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+export const buildSearchIndex = (
+  conversations: { id: string; title: string; tree: ConversationTree }[]
+): SearchIndex => {
+  const documents: SearchDocument[] = [];
+  for (const conversation of conversations) {
+    for (const { message } of Object.values(conversation.tree.nodes)) {
+      if (message.type !== "user" && message.type !== "assistant") continue;
+
+      const base = {
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        messageId: message.id,
+        type: message.type,
+        timestamp: message.timestamp,
+      };
+      if (message.content.trim()) {
+        documents.push({ ...base, field: "content", text: message.content });
+      }
+      const screenText = findAttachment(message, "ocr-text")?.text;
+      if (screenText?.trim()) {
+        documents.push({ ...base, field: "screen", text: screenText });
+      }
+    }
+  }
+
+  const tokens = documents.map((document) => tokenize(document.text));
+  const postings: SearchIndex["postings"] = new Map();
+  tokens.forEach((documentTokens, documentIndex) => {
+    documentTokens.forEach(({ term }, position) => {
+      let byDocument = postings.get(term);
+      if (!byDocument) postings.set(term, (byDocument = new Map()));
+      let positions = byDocument.get(documentIndex);
+      if (!positions) byDocument.set(documentIndex, (positions = []));
+      positions.push(position);
+    });
+  });
+
+  return { documents, tokens, postings, terms: [...postings.keys()].sort() };
+};
+
+export const parseQuery = (query: string): Clause[] => {
+  const clauses: Clause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map((token) => token.term);
+      if (terms.length === 1) clauses.push({ kind: "word", term: terms[0]! });
+      else if (terms.length > 1) clauses.push({ kind: "phrase", terms });
+      continue;
+    }
+
+    const isPrefix = match[2]!.endsWith("*");
+    // "nginx.conf" is indexed as two words, so it searches as a phrase
+    const terms = tokenize(match[2]!).map((token) => token.term);
+    if (terms.length > 1) {
+      clauses.push({ kind: "phrase", terms });
+    } else if (terms.length === 1) {
+      clauses.push({ kind: isPrefix ? "prefix" : "word", term: terms[0]! });
+    }
+  }
+  return clauses;
+};
+
+// Indexed terms starting with the prefix, found by binary search
+const termsWithPrefix = (terms: string[], prefix: string) => {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (terms[middle]! < prefix) low = middle + 1;
+    else high = middle;
+  }
+
+  const matching: string[] = [];
+  for (let i = low; i < terms.length && terms[i]!.startsWith(prefix); i++) {
+    matching.push(terms[i]!);
+  }
+  return matching;
+};
+
+// Where a clause matches: document index → character ranges
+const matchClause = (index: SearchIndex, clause: Clause) => {
+  const matches = new Map<number, Range[]>();
+  const addToken = (documentIndex: number, first: number, last = first) => {
+    const documentTokens = index.tokens[documentIndex]!;
+    const ranges = matches.get(documentIndex) ?? [];
+    ranges.push({ start: documentTokens[first]!.start, end: documentTokens[last]!.end });
+    matches.set(documentIndex, ranges);
+  };
+
+  if (clause.kind === "word" || clause.kind === "prefix") {
+    const terms =
+      clause.kind === "word" ? [clause.term] : termsWithPrefix(index.terms, clause.term);
+    for (const term of terms) {
+      index.postings.get(term)?.forEach((positions, documentIndex) => {
+        for (const position of positions) addToken(documentIndex, position);
+      });
+    }
+    return matches;
+  }
+
+  const [first, ...rest] = clause.terms;
+  index.postings.get(first!)?.forEach((positions, documentIndex) => {
+    const documentTokens = index.tokens[documentIndex]!;
+    for (const position of positions) {
+      const follows = rest.every(
+        (term, offset) => documentTokens[position + offset + 1]?.term === term
+      );
+      if (follows) addToken(documentIndex, position, position + rest.length);
+    }
+  });
+  return matches;
+};
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 220;
+
+// A window of the text around the first hit, hits marked
+const buildSnippet = (text: string, ranges: Range[]): SnippetPart[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const start = Math.max(0, sorted[0]!.start - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const range of sorted) {
+    if (range.start >= end) break;
+    if (range.end <= cursor) continue; // overlaps a hit already marked
+    if (range.start > cursor) parts.push({ text: text.slice(cursor, range.start), hit: false });
+    const hitStart = Math.max(range.start, cursor);
+    const hitEnd = Math.min(range.end, end);
+    parts.push({ text: text.slice(hitStart, hitEnd), hit: true });
+    cursor = hitEnd;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), hit: false });
+
+  if (start > 0) parts.unshift({ text: "…", hit: false });
+  if (end < text.length) parts.push({ text: "…", hit: false });
+  return parts.map((part) => ({ ...part, text: part.text.replace(/\s+/g, " ") }));
+};
+
+// Documents matching every clause, most hits first, then newest
+export const searchConversations = (
+  index: SearchIndex,
+  query: string,
+  limit = 50
+): SearchHit[] => {
+  const clauses = parseQuery(query);
+  if (!clauses.length) return [];
+
+  let results: Map<number, Range[]> | null = null;
+  for (const clause of clauses) {
+    const matches = matchClause(index, clause);
+    if (results === null) {
+      results = matches;
+      continue;
+    }
+    const combined = new Map<number, Range[]>();
+    for (const [documentIndex, ranges] of results) {
+      const more = matches.get(documentIndex);
+      if (more) combined.set(documentIndex, [...ranges, ...more]);
+    }
+    results = combined;
+    if (!results.size) return [];
+  }
+
+  return [...results!]
+    .map(([documentIndex, ranges]) => {
+      const document = index.documents[documentIndex]!;
+      return { document, snippet: buildSnippet(document.text, ranges), hits: ranges.length };
+    })
+    .sort(
+      (a, b) =>
+        b.hits - a.hits || b.document.timestamp.getTime() - a.document.timestamp.getTime()
+    )
+    .slice(0, limit);
+};
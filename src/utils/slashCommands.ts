@@ -0,0 +1,28 @@
+// Commands typed into the composer as "/name argument". Only names in the
+// list are commands, so a message that merely starts with a path such as
+// "/usr/bin" is still sent as a question.
+
+export interface SlashCommand {
+  name: string; // typed after the slash, e.g. "clear"
+  description: string;
+  argument?: string; // placeholder shown in the menu, e.g. "<question>"
+  needsIdle?: boolean; // cannot run while an answer is being written
+  run: (argument: string) => void;
+}
+
+export const parseSlashCommand = (text: string, commands: SlashCommand[]) => {
+  const match = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+  if (!match) return null;
+
+  const command = commands.find((c) => c.name === match[1]!.toLowerCase());
+  return command ? { command, argument: (match[2] ?? "").trim() } : null;
+};
+
+// Commands offered while the user is still typing the name
+export const matchingCommands = (text: string, commands: SlashCommand[]) => {
+  const match = /^\/(\S*)$/.exec(text);
+  if (!match) return [];
+
+  const prefix = match[1]!.toLowerCase();
+  return commands.filter((command) => command.name.startsWith(prefix));
+};
@@ -0,0 +1,46 @@
+// A minimal external store. The floating window is a second React root
+// created by this page's code, so both windows can subscribe to the same
+// store object and re-render from the one copy of the state.
+
+type Listener = () => void;
+
+export interface Store<T> {
+  getState: () => T;
+  setState: (changes: Partial<T> | ((state: T) => Partial<T>)) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+export const createStore = <T extends object>(initial: T): Store<T> => {
+  let state = initial;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    setState: (changes) => {
+      const next = typeof changes === "function" ? changes(state) : changes;
+      const keys = Object.keys(next) as (keyof T)[];
+      if (keys.every((key) => Object.is(next[key], state[key]))) return;
+      state = { ...state, ...next };
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// Turns a store field into a React-style setter, so contexts can hand out
+// the same Dispatch<SetStateAction> they did when the field was useState
+export const fieldSetter =
+  <T extends object, K extends keyof T>(store: Store<T>, key: K) =>
+  (value: T[K] | ((previous: T[K]) => T[K])) =>
+    store.setState(
+      (state) =>
+        ({
+          [key]:
+            typeof value === "function"
+              ? (value as (previous: T[K]) => T[K])(state[key])
+              : value,
+        }) as unknown as Partial<T>
+    );